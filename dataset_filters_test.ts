@@ -0,0 +1,31 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { parseFilters } from "./server/dataset/index.ts";
+
+const columns = ["id", "城市", "金额", "状态", "名称"];
+
+Deno.test("parseFilters 解析相等条件和操作符条件", () => {
+  assertEquals(parseFilters(undefined, columns), {});
+  assertEquals(parseFilters("", columns), {});
+  assertEquals(
+    parseFilters(
+      '{"城市":"北京","金额":{"gte":100,"lt":500},"状态":{"in":["A","B"]},"名称":{"contains":"张"},"id":null}',
+      columns,
+    ),
+    {
+      城市: "北京",
+      金额: { gte: 100, lt: 500 },
+      状态: { in: ["A", "B"] },
+      名称: { contains: "张" },
+      id: null,
+    },
+  );
+});
+
+Deno.test("parseFilters 拒绝格式错误的条件", () => {
+  assertThrows(() => parseFilters("{", columns), Error, "filters参数必须为JSON对象");
+  assertThrows(() => parseFilters("[1]", columns), Error, "filters参数必须为JSON对象");
+  assertThrows(() => parseFilters('{"省份":"河北"}', columns), Error, "筛选列不存在: 省份");
+  assertThrows(() => parseFilters('{"金额":{"between":[1,2]}}', columns), Error, "筛选条件格式错误");
+  assertThrows(() => parseFilters('{"状态":{"in":[]}}', columns), Error, "列 状态 的 in 条件值格式错误");
+  assertThrows(() => parseFilters('{"金额":{"gt":{"a":1}}}', columns), Error, "列 金额 的 gt 条件值格式错误");
+});
@@ -0,0 +1,113 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { applyMapping, parseMapping } from "./server/dataset/mapping.ts";
+
+Deno.test("parseMapping 解析映射规则", () => {
+  assertEquals(parseMapping('{"columns":[{"target":" 城市 ","source":"city"}]}'), {
+    columns: [{ target: "城市", source: "city", transforms: [] }],
+    keepUnmapped: false,
+  });
+  assertEquals(parseMapping({ columns: [{ target: "地区", template: "{省份}-{城市}" }], keepUnmapped: true }), {
+    columns: [{ target: "地区", template: "{省份}-{城市}", transforms: [] }],
+    keepUnmapped: true,
+  });
+});
+
+Deno.test("parseMapping 拒绝格式错误的规则", () => {
+  assertThrows(() => parseMapping("{"), Error, "映射规则必须为JSON对象");
+  assertThrows(() => parseMapping([]), Error, "映射规则必须为JSON对象");
+  assertThrows(() => parseMapping({ columns: [] }), Error, "映射规则的columns不能为空");
+  assertThrows(() => parseMapping({ columns: [{ source: "a" }] }), Error, "第1条映射规则缺少target");
+  assertThrows(
+    () => parseMapping({ columns: [{ target: "a", source: "a" }, { target: "a", source: "b" }] }),
+    Error,
+    "目标列 a 重复",
+  );
+  assertThrows(
+    () => parseMapping({ columns: [{ target: "a", source: "a", template: "{b}" }] }),
+    Error,
+    "列 a 必须且只能指定 source 或 template 之一",
+  );
+  assertThrows(() => parseMapping({ columns: [{ target: "a" }] }), Error, "列 a 必须且只能指定 source 或 template 之一");
+  assertThrows(
+    () => parseMapping({ columns: [{ target: "a", source: "a", transforms: {} }] }),
+    Error,
+    "列 a 的transforms必须为数组",
+  );
+  assertThrows(
+    () => parseMapping({ columns: [{ target: "a", source: "a", transforms: [{ type: "split" }] }] }),
+    Error,
+    "列 a 的转换类型 split 不支持",
+  );
+  assertThrows(
+    () =>
+      parseMapping({ columns: [{ target: "a", source: "a", transforms: [{ type: "replace", pattern: "(", replacement: "" }] }] }),
+    Error,
+    "列 a 的正则表达式错误",
+  );
+  assertThrows(
+    () => parseMapping({ columns: [{ target: "a", source: "a", transforms: [{ type: "default" }] }] }),
+    Error,
+    "列 a 的 default 转换缺少 value",
+  );
+});
+
+Deno.test("applyMapping 按顺序执行转换并生成计算列", () => {
+  const spec = parseMapping({
+    columns: [
+      { target: "省份", source: "province", transforms: [{ type: "trim" }] },
+      { target: "城市", source: "city", transforms: [{ type: "trim" }, { type: "default", value: "未知" }] },
+      { target: "地区", template: "{省份}-{城市}" },
+      { target: "编码", source: "code", transforms: [{ type: "case", to: "upper" }] },
+      { target: "日期", source: "date", transforms: [{ type: "date", format: ["DD/MM/YYYY", "YYYY年M月D日"] }] },
+      { target: "金额", source: "amount", transforms: [{ type: "number", thousands: ".", decimal: "," }] },
+      {
+        target: "状态",
+        source: "status",
+        transforms: [{ type: "lookup", values: { "1": "启用", "0": "停用" }, fallback: "null" }],
+      },
+      {
+        target: "电话",
+        source: "phone",
+        transforms: [{ type: "replace", pattern: "(\\d{3})\\d{4}(\\d{4})", replacement: "$1****$2" }],
+      },
+    ],
+  });
+  const rows = [
+    { province: " 河北 ", city: " ", code: "ab", date: "05/03/2024", amount: "1.234,5", status: "1", phone: "13812345678" },
+    { province: "山东", city: "济南", code: "cd", date: "2024年3月5日", amount: 12, status: "9", phone: "" },
+  ];
+  assertEquals(applyMapping(rows, spec), {
+    valid: [
+      { 省份: "河北", 城市: "未知", 地区: "河北-未知", 编码: "AB", 日期: "2024-03-05", 金额: 1234.5, 状态: "启用", 电话: "138****5678" },
+      { 省份: "山东", 城市: "济南", 地区: "山东-济南", 编码: "CD", 日期: "2024-03-05", 金额: 12, 状态: null, 电话: "" },
+    ],
+    invalid: [],
+  });
+});
+
+Deno.test("applyMapping 转换失败的行作为无效行返回", () => {
+  const spec = parseMapping({
+    columns: [
+      { target: "金额", source: "amount", transforms: [{ type: "number" }] },
+      { target: "日期", source: "date", transforms: [{ type: "date", format: "YYYY-MM-DD", output: "YYYY/MM/DD" }] },
+      { target: "等级", source: "level", transforms: [{ type: "lookup", values: { A: 1 }, fallback: "error" }] },
+    ],
+    keepUnmapped: true,
+  });
+  const rows = [
+    { amount: "1,000", date: "2024-01-02", level: "A", remark: "保留" },
+    { amount: "abc", date: "2024-13-01", level: "B", remark: "" },
+  ];
+  assertEquals(applyMapping(rows, spec), {
+    valid: [{ 金额: 1000, 日期: "2024/01/02", 等级: 1, remark: "保留" }],
+    invalid: [{
+      row: 2,
+      data: rows[1],
+      errors: [
+        { column: "金额", value: "abc", message: "无法解析为数字" },
+        { column: "日期", value: "2024-13-01", message: "无法按格式 YYYY-MM-DD 解析为日期" },
+        { column: "等级", value: "B", message: "值不在查找表中" },
+      ],
+    }],
+  });
+});
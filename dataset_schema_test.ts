@@ -0,0 +1,59 @@
+import { assertEquals } from "@std/assert";
+import { checkColumnLength, convertValue, inferColumns, inferColumnType } from "./server/dataset/schema.ts";
+
+Deno.test("inferColumnType 按取值范围推断整数类型", () => {
+  assertEquals(inferColumnType(["1", "-2147483648", "2147483647"]), { type: "int", sqlType: "INT" });
+  assertEquals(inferColumnType(["2147483648"]), { type: "bigint", sqlType: "BIGINT" });
+  assertEquals(inferColumnType(["-9223372036854775808", "9223372036854775807"]), { type: "bigint", sqlType: "BIGINT" });
+  assertEquals(inferColumnType(["9223372036854775808"]), { type: "decimal", sqlType: "DECIMAL(19,0)" });
+  assertEquals(inferColumnType(["1".repeat(66)]), { type: "varchar", sqlType: "VARCHAR(255)" });
+});
+
+Deno.test("inferColumnType 推断小数、日期和字符串", () => {
+  assertEquals(inferColumnType(["1.5", "-20.25", "3"]), { type: "decimal", sqlType: "DECIMAL(4,2)" });
+  assertEquals(inferColumnType(["2024-01-31", "2024/2/1"]), { type: "date", sqlType: "DATE" });
+  assertEquals(inferColumnType(["2024-01-31 08:00:00", "2024-02-01"]), { type: "datetime", sqlType: "DATETIME" });
+  assertEquals(inferColumnType(["北京", "1"]), { type: "varchar", sqlType: "VARCHAR(255)" });
+  assertEquals(inferColumnType(["x".repeat(256)]), { type: "text", sqlType: "TEXT" });
+  assertEquals(inferColumnType(["中".repeat(255)]), { type: "varchar", sqlType: "VARCHAR(255)" });
+  assertEquals(inferColumnType(["中".repeat(21846)]), { type: "text", sqlType: "MEDIUMTEXT" });
+});
+
+Deno.test("inferColumnType 忽略空值", () => {
+  assertEquals(inferColumnType(["", null, undefined, " 12 "]), { type: "int", sqlType: "INT" });
+  assertEquals(inferColumnType(["", null]), { type: "varchar", sqlType: "VARCHAR(255)" });
+});
+
+Deno.test("inferColumns 规范化并去重列名", () => {
+  const columns = inferColumns([{ "id": "1", " 城市 名称 ": "北京", "ID": "2" }, { "金额": "1.5" }]);
+  assertEquals(columns.map((column) => [column.name, column.source, column.type]), [
+    ["id_2", "id", "int"],
+    ["城市_名称", " 城市 名称 ", "varchar"],
+    ["ID_3", "ID", "int"],
+    ["金额", "金额", "decimal"],
+  ]);
+});
+
+Deno.test("inferColumns 列的总长度超过单行上限时将靠后的字符串列改为 TEXT", () => {
+  const row = Object.fromEntries(Array.from({ length: 70 }, (_, i) => [`列${i + 1}`, "文本"]));
+  const columns = inferColumns([{ ...row, 金额: "1" }]);
+  const types = columns.map((column) => column.sqlType);
+  assertEquals(types.slice(0, 64), Array(64).fill("VARCHAR(255)"));
+  assertEquals(types.slice(64), [...Array(6).fill("TEXT"), "INT"]);
+});
+
+Deno.test("checkColumnLength 校验字符串长度", () => {
+  const varchar = { name: "a", source: "a", type: "varchar", sqlType: "VARCHAR(255)" } as const;
+  const text = { name: "b", source: "b", type: "text", sqlType: "TEXT" } as const;
+  assertEquals(checkColumnLength("中".repeat(255), varchar), null);
+  assertEquals(checkColumnLength("x".repeat(256), varchar), "长度超过 255 个字符");
+  assertEquals(checkColumnLength("中".repeat(21845), text), null);
+  assertEquals(checkColumnLength("中".repeat(21846), text), "长度超过 65535 字节");
+});
+
+Deno.test("convertValue 转换为入库格式", () => {
+  assertEquals(convertValue(" 12 ", "int"), "12");
+  assertEquals(convertValue("", "int"), null);
+  assertEquals(convertValue("2024/2/1", "date"), "2024-02-01");
+  assertEquals(convertValue("2024/2/1 8:05:00", "datetime"), "2024-02-01 08:05:00");
+});
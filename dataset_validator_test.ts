@@ -0,0 +1,47 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { parseSchema, validateRows } from "./server/dataset/validator.ts";
+
+Deno.test("parseSchema 解析 JSON 规则并补充默认类型", () => {
+  assertEquals(parseSchema('[{"column":"姓名","required":true},{"column":"年龄","type":"int","min":0}]'), [
+    { column: "姓名", required: true, type: "string" },
+    { column: "年龄", type: "int", min: 0 },
+  ]);
+});
+
+Deno.test("parseSchema 拒绝格式错误的规则", () => {
+  assertThrows(() => parseSchema("{"), Error, "校验规则必须为JSON数组");
+  assertThrows(() => parseSchema({ column: "a" }), Error, "校验规则必须为JSON数组");
+  assertThrows(() => parseSchema([{ type: "int" }]), Error, "第1条校验规则缺少column");
+  assertThrows(() => parseSchema([{ column: "a", type: "bool" }]), Error, "类型 bool 不支持");
+  assertThrows(() => parseSchema([{ column: "a", type: "enum" }]), Error, "枚举值不能为空");
+  assertThrows(() => parseSchema([{ column: "a", pattern: "(" }]), Error, "正则表达式错误");
+});
+
+Deno.test("validateRows 按规则拆分有效行和无效行", () => {
+  const schema = parseSchema([
+    { column: "编号", required: true, unique: true },
+    { column: "数量", type: "int", min: 1, max: 100 },
+    { column: "金额", type: "decimal" },
+    { column: "日期", type: "date", format: "YYYY-MM-DD" },
+    { column: "状态", type: "enum", values: ["A", "B"] },
+    { column: "编码", pattern: "^[A-Z]{2}\\d+$" },
+  ]);
+  const rows = [
+    { 编号: "1", 数量: "10", 金额: "1.5", 日期: "2024-01-31", 状态: "A", 编码: "AB1" },
+    { 编号: "", 数量: "0", 金额: "abc", 日期: "2024/01/31", 状态: "C", 编码: "ab1" },
+    { 编号: "1", 数量: 5, 金额: 2, 日期: "", 状态: "B", 编码: "CD2" },
+  ];
+  const result = validateRows(rows, schema, 10);
+
+  assertEquals(result.valid, [rows[0]]);
+  assertEquals(result.invalid.map((item) => item.row), [12, 13]);
+  assertEquals(result.invalid[0].errors.map((error) => [error.column, error.message]), [
+    ["编号", "不能为空"],
+    ["数量", "不能小于 1"],
+    ["金额", "必须为数字"],
+    ["日期", "日期格式必须为 YYYY-MM-DD"],
+    ["状态", "必须为以下值之一: A, B"],
+    ["编码", "格式不正确"],
+  ]);
+  assertEquals(result.invalid[1].errors, [{ column: "编号", value: "1", message: "与第 11 行重复" }]);
+});
@@ -0,0 +1,40 @@
+import { assertEquals } from "@std/assert";
+import { sniffFormat } from "./server/read/format.ts";
+
+const encoder = new TextEncoder();
+
+/**
+ * 编码为带 BOM 的 UTF-16LE
+ * @param {string} text 文本
+ * @returns {Uint8Array} 字节
+ */
+const encodeUtf16 = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(2 + text.length * 2);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, 0xfeff, true);
+  for (let i = 0; i < text.length; i++) {
+    view.setUint16(2 + i * 2, text.charCodeAt(i), true);
+  }
+  return bytes;
+};
+
+Deno.test("sniffFormat 根据内容识别文本格式", () => {
+  assertEquals(sniffFormat(encoder.encode("\uFEFFid,name\n1,张三\n")), "csv");
+  assertEquals(sniffFormat(encoder.encode("id\tname\n1\t张三\n")), "tsv");
+  assertEquals(sniffFormat(encoder.encode('  [{"id":1}]')), "json");
+  assertEquals(sniffFormat(encoder.encode('{"id":1}\n{"id":2}\n')), "ndjson");
+  assertEquals(sniffFormat(encoder.encode('{\n  "rows": []\n}')), "json");
+  assertEquals(sniffFormat(encodeUtf16("id,name\n1,张三\n")), "csv");
+});
+
+Deno.test("sniffFormat 无法识别时返回 null", () => {
+  assertEquals(sniffFormat(new Uint8Array()), null);
+  assertEquals(sniffFormat(encoder.encode("# 说明\n\n这是数据目录的说明文件\n")), null);
+  assertEquals(sniffFormat(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d])), null);
+  assertEquals(sniffFormat(encoder.encode("a,b\u0000\u0001")), null);
+});
+
+Deno.test("sniffFormat 根据文件头识别 Excel", () => {
+  assertEquals(sniffFormat(new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00])), "xlsx");
+  assertEquals(sniffFormat(new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1])), "xls");
+});
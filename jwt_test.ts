@@ -0,0 +1,53 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { checkJwtSecret, signToken, verifyToken } from "./server/utils/jwt.ts";
+
+const user = { sub: 1, username: "admin", roles: ["admin"] };
+
+/**
+ * Base64URL 编码 JSON
+ * @param {unknown} value 内容
+ * @returns {string} Base64URL 字符串
+ */
+const encodeJson = (value: unknown): string => {
+  return btoa(JSON.stringify(value)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+Deno.test("signToken 签发的令牌可以通过校验", async () => {
+  const token = await signToken({ ...user, type: "access" }, 1800);
+  const payload = await verifyToken(token, "access");
+  assertEquals({ ...payload, iat: 0, exp: 0 }, { ...user, type: "access", iat: 0, exp: 0 });
+  assertEquals(payload.exp - payload.iat, 1800);
+});
+
+Deno.test("verifyToken 拒绝类型不符、过期和篡改的令牌", async () => {
+  const refresh = await signToken({ ...user, type: "refresh" }, 1800);
+  await assertRejects(() => verifyToken(refresh, "access"), Error, "令牌类型错误");
+
+  const expired = await signToken({ ...user, type: "access" }, -1);
+  await assertRejects(() => verifyToken(expired, "access"), Error, "令牌已过期");
+
+  const [header, , signature] = (await signToken({ ...user, type: "access" }, 1800)).split(".");
+  const forged = encodeJson({ ...user, roles: ["admin", "importer"], type: "access", iat: 0, exp: 9999999999 });
+  await assertRejects(() => verifyToken(`${header}.${forged}.${signature}`, "access"), Error, "令牌无效");
+  const none = encodeJson({ alg: "none", typ: "JWT" });
+  await assertRejects(() => verifyToken(`${none}.${forged}.${signature}`, "access"), Error, "令牌无效");
+
+  await assertRejects(() => verifyToken("abc", "access"), Error, "令牌格式错误");
+  await assertRejects(() => verifyToken("a.b.c", "access"), Error, "令牌无效");
+});
+
+Deno.test("checkJwtSecret 非开发环境未配置 JWT_SECRET 时报错", () => {
+  const denoEnv = Deno.env.get("DENO_ENV");
+  try {
+    Deno.env.set("DENO_ENV", "development");
+    checkJwtSecret();
+    Deno.env.set("DENO_ENV", "production");
+    assertThrows(() => checkJwtSecret(), Error, "未配置 JWT_SECRET");
+  } finally {
+    if (denoEnv === undefined) {
+      Deno.env.delete("DENO_ENV");
+    } else {
+      Deno.env.set("DENO_ENV", denoEnv);
+    }
+  }
+});
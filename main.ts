@@ -1,27 +1,55 @@
-import { getFileData, readFileCSV, readFileExcel } from "./server/read/index.ts";
-import { RouterItem, server } from "./server/utils/request.ts";
+import { importJobManager } from "./server/job/manager.ts";
+import { ensureAdminUser } from "./server/auth/user.ts";
+import { checkJwtSecret } from "./server/utils/jwt.ts";
+import { registerHealthChecks } from "./server/health/index.ts";
+import { loadWatchFolders, scanWatchFolder } from "./server/watch/folder.ts";
+import { server } from "./server/utils/request.ts";
 import { CronJobManager } from "./server/utils/cron.ts";
+import { shutdownManager } from "./server/utils/shutdown.ts";
 import { env } from "./server/config/env.ts";
 import { logger } from "./server/utils/logger.ts";
 import { mysql } from "./server/utils/mysql.ts";
 
-// 接口路由配置
-const routerArr: Array<RouterItem> = [
-  { url: "/readFileCSV", method: "GET", callback: readFileCSV },
-  { url: "/readFileExcel", method: "GET", callback: readFileExcel },
-  { url: "/getFileData", method: "GET", callback: getFileData },
-];
-
 if (import.meta.main) {
   
-  // 启动服务
-  server(routerArr);
+  // 非开发环境必须配置 JWT_SECRET，否则退出
+  try {
+    checkJwtSecret();
+  } catch (error) {
+    logger.error("服务启动失败", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await logger.flush();
+    Deno.exit(1);
+  }
+
+  // 收到 SIGINT/SIGTERM 时优雅停机，停机前等待正在执行的导入任务
+  shutdownManager.onShutdown("import_jobs", () => importJobManager.stop());
+  shutdownManager.listen();
+
+  // 注册就绪检查项
+  registerHealthChecks();
+
+  // 启动服务，接口路由从 server/routes 目录加载，加载失败或存在重复接口时退出
+  server().catch(async (error) => {
+    logger.error("服务启动失败", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await logger.flush();
+    Deno.exit(1);
+  });
 
   // 检测数据库连接
   try {
     logger.info("正在检测数据库连接...");
     await mysql.connect();
     logger.info("数据库连接检测成功");
+
+    // 创建初始管理员
+    await ensureAdminUser();
+
+    // 恢复未完成的导入任务
+    await importJobManager.resume();
   } catch (error) {
     logger.error("数据库连接失败，服务可能无法正常访问数据", {
       error: error instanceof Error ? error.message : String(error),
@@ -38,4 +66,21 @@ if (import.meta.main) {
       await Deno.remove("./logs/app.log");
     },
   });
+
+  // 监听目录定时导入
+  try {
+    for (const folder of await loadWatchFolders(env.WATCH_CONFIG)) {
+      await cronManager.addJob({
+        name: `watch_${folder.name}`,
+        schedule: folder.schedule,
+        task: async () => {
+          await scanWatchFolder(folder);
+        },
+      });
+    }
+  } catch (error) {
+    logger.error("注册监听目录失败", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
 }
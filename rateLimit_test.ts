@@ -0,0 +1,33 @@
+import { assertEquals } from "@std/assert";
+import { MemoryRateLimitStore, RateLimiter } from "./server/utils/rateLimit.ts";
+
+Deno.test("MemoryRateLimitStore 按窗口计数并返回前一个窗口的计数", async () => {
+  const store = new MemoryRateLimitStore();
+  assertEquals(await store.increment("a", 600, 60), { current: 1, previous: 0 });
+  assertEquals(await store.increment("a", 600, 60), { current: 2, previous: 0 });
+  assertEquals(await store.increment("b", 600, 60), { current: 1, previous: 0 });
+  assertEquals(await store.increment("a", 660, 60), { current: 1, previous: 2 });
+  // 前一个窗口之前的计数不参与计算
+  assertEquals(await store.increment("a", 780, 60), { current: 1, previous: 0 });
+});
+
+Deno.test("RateLimiter 使用滑动窗口折算前一个窗口的请求数", async () => {
+  const limiter = RateLimiter.getInstance();
+  const rule = { limit: 3, window: 60 };
+  const key = `test:${crypto.randomUUID()}`;
+  const now = Date.now;
+  try {
+    Date.now = () => 600_000;
+    assertEquals((await limiter.hit(key, rule)).remaining, 2);
+    assertEquals((await limiter.hit(key, rule)).remaining, 1);
+    assertEquals(await limiter.hit(key, rule), { allowed: true, limit: 3, remaining: 0, reset: 60, retryAfter: 0 });
+    assertEquals(await limiter.hit(key, rule), { allowed: false, limit: 3, remaining: 0, reset: 60, retryAfter: 60 });
+
+    // 下个窗口过半，前一个窗口的 4 次请求折算为 2 次
+    Date.now = () => 690_000;
+    assertEquals(await limiter.hit(key, rule), { allowed: true, limit: 3, remaining: 0, reset: 30, retryAfter: 0 });
+    assertEquals(await limiter.hit(key, rule), { allowed: false, limit: 3, remaining: 0, reset: 30, retryAfter: 15 });
+  } finally {
+    Date.now = now;
+  }
+});
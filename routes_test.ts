@@ -0,0 +1,81 @@
+import { assertEquals } from "@std/assert";
+import { findDuplicateRoutes, flattenRoutes, type RouteGroup } from "./server/utils/routes.ts";
+
+const callback = () => {};
+const groupMiddleware = () => {};
+const childMiddleware = () => {};
+const routeMiddleware = () => {};
+
+Deno.test("flattenRoutes 合并分组配置并拼接路径", () => {
+  const group: RouteGroup = {
+    prefix: "/dataset/",
+    auth: true,
+    tags: ["数据集"],
+    middleware: [groupMiddleware],
+    routes: [
+      { url: "/list", method: "GET", callback },
+      { url: "", method: "POST", auth: false, callback },
+      {
+        prefix: "admin",
+        roles: ["importer"],
+        rateLimit: { limit: 10, window: 60 },
+        middleware: [childMiddleware],
+        routes: [
+          { url: "//reimport/", method: "POST", tags: ["导入"], middleware: [routeMiddleware], callback },
+          { url: "/clear", method: "DELETE", rateLimit: false, callback },
+        ],
+      },
+    ],
+  };
+  const routes = flattenRoutes(group);
+  assertEquals(
+    routes.map(({ url, method, auth, roles, rateLimit, tags }) => ({ url, method, auth, roles, rateLimit, tags })),
+    [
+      { url: "/dataset/list", method: "GET", auth: true, roles: undefined, rateLimit: undefined, tags: ["数据集"] },
+      { url: "/dataset", method: "POST", auth: false, roles: undefined, rateLimit: undefined, tags: ["数据集"] },
+      {
+        url: "/dataset/admin/reimport",
+        method: "POST",
+        auth: true,
+        roles: ["importer"],
+        rateLimit: { limit: 10, window: 60 },
+        tags: ["导入"],
+      },
+      {
+        url: "/dataset/admin/clear",
+        method: "DELETE",
+        auth: true,
+        roles: ["importer"],
+        rateLimit: false,
+        tags: ["数据集"],
+      },
+    ],
+  );
+  assertEquals(routes.map((item) => item.middleware), [
+    [groupMiddleware],
+    [groupMiddleware],
+    [groupMiddleware, childMiddleware, routeMiddleware],
+    [groupMiddleware, childMiddleware],
+  ]);
+});
+
+Deno.test("flattenRoutes 没有前缀时使用根路径", () => {
+  const routes = flattenRoutes({ routes: [{ url: "/", method: "GET", callback }, { url: "login", method: "POST", callback }] });
+  assertEquals(routes.map((item) => item.url), ["/", "/login"]);
+});
+
+Deno.test("findDuplicateRoutes 查找方法和路径相同的接口", () => {
+  assertEquals(
+    findDuplicateRoutes([
+      { url: "/dataset/:id", method: "GET" },
+      { url: "/dataset/:name", method: "GET" },
+      { url: "/dataset/:id", method: "DELETE" },
+      { url: "/dataset/list", method: "GET" },
+      { url: "/login", method: "POST" },
+      { url: "/login", method: "POST" },
+      { url: "/login", method: "POST" },
+    ]),
+    ["GET /dataset/:name", "POST /login"],
+  );
+  assertEquals(findDuplicateRoutes([{ url: "/a/:id/b", method: "GET" }, { url: "/a/:id/c", method: "GET" }]), []);
+});
@@ -0,0 +1,40 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { env } from "./server/config/env.ts";
+import { normalizeSegments, resolveDataPath } from "./server/utils/sandbox.ts";
+
+Deno.test("normalizeSegments 规范化路径段", () => {
+  assertEquals(normalizeSegments(""), []);
+  assertEquals(normalizeSegments("/sales//2024/./01.csv"), ["sales", "2024", "01.csv"]);
+  assertEquals(normalizeSegments("sales\\2024\\..\\2025\\01.csv"), ["sales", "2025", "01.csv"]);
+  assertThrows(() => normalizeSegments("../secret.csv"), Error, "文件路径超出数据目录");
+  assertThrows(() => normalizeSegments("sales/../../secret.csv"), Error, "文件路径超出数据目录");
+  assertThrows(() => normalizeSegments("sales/01.csv\0.txt"), Error, "文件路径非法");
+});
+
+Deno.test("resolveDataPath 只解析数据目录内的文件", async () => {
+  const tmp = await Deno.realPath(await Deno.makeTempDir());
+  const root = `${tmp}/data`;
+  const dataRoot = env.DATA_ROOT;
+  try {
+    await Deno.mkdir(`${root}/sales`, { recursive: true });
+    await Deno.writeTextFile(`${root}/sales/01.csv`, "id\n1\n");
+    await Deno.writeTextFile(`${tmp}/secret.csv`, "id\n1\n");
+    await Deno.symlink(`${tmp}/secret.csv`, `${root}/secret.csv`);
+    await Deno.symlink(`${root}/sales/01.csv`, `${root}/latest.csv`);
+    env.DATA_ROOT = root;
+
+    assertEquals(await resolveDataPath("sales/01.csv"), `${root}/sales/01.csv`);
+    assertEquals(await resolveDataPath("/sales/../sales/01.csv"), `${root}/sales/01.csv`);
+    assertEquals(await resolveDataPath("latest.csv"), `${root}/sales/01.csv`);
+    assertEquals(await resolveDataPath(""), root);
+    await assertRejects(() => resolveDataPath("../secret.csv"), Error, "文件路径超出数据目录");
+    await assertRejects(() => resolveDataPath("secret.csv"), Error, "文件路径超出数据目录");
+    await assertRejects(() => resolveDataPath("sales/02.csv"), Error, "文件不存在");
+
+    env.DATA_ROOT = `${tmp}/missing`;
+    await assertRejects(() => resolveDataPath("sales/01.csv"), Error, "数据目录不存在");
+  } finally {
+    env.DATA_ROOT = dataRoot;
+    await Deno.remove(tmp, { recursive: true });
+  }
+});
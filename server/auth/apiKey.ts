@@ -0,0 +1,188 @@
+/**
+ * API Key 管理
+ * 供脚本和外部系统调用接口，请求头 X-API-Key 传入密钥
+ * 密钥只在创建时返回一次，set_api_key 表中只保存 SHA-256 哈希和用于识别的前缀
+ *
+ * @example
+ * ```ts
+ * const { key } = await createApiKey("nightly-etl", ["importer"], "2025-12-31 23:59:59", 1);
+ * const apiKey = await verifyApiKey(key);
+ * ```
+ */
+import moment from "moment";
+import { mysql } from "../utils/mysql.ts";
+import { logger } from "../utils/logger.ts";
+import type { Role } from "./user.ts";
+
+/** API Key 表 */
+export const API_KEY_TABLE = "set_api_key";
+
+/** API Key 可用的权限范围，不允许授予 admin */
+export const API_KEY_SCOPES: Role[] = ["importer", "exporter"];
+
+/** 密钥前缀，便于在日志和代码仓库中识别 */
+const KEY_PREFIX = "dk_";
+/** 最后使用时间的最小更新间隔 单位秒 */
+const LAST_USED_INTERVAL = 60;
+
+/**
+ * API Key 接口，对应 set_api_key 表
+ */
+export interface ApiKey {
+  /** ID */
+  id: number;
+  /** 名称 */
+  name: string;
+  /** 密钥前缀，用于识别密钥 */
+  key_prefix: string;
+  /** 密钥哈希 */
+  key_hash: string;
+  /** 权限范围 JSON */
+  scopes: string | Role[];
+  /** 过期时间，为空时永不过期 */
+  expires_at: string | null;
+  /** 最后使用时间 */
+  last_used_at: string | null;
+  /** 撤销时间 */
+  revoked_at: string | null;
+  /** 创建人用户ID */
+  created_by: number | null;
+  /** 创建时间 */
+  created_at: string;
+}
+
+/** 不含密钥哈希的 API Key 信息 */
+export type ApiKeyInfo = Omit<ApiKey, "key_hash" | "scopes"> & { scopes: Role[] };
+
+let apiKeyReady = false;
+
+/**
+ * 确保 set_api_key 表存在
+ */
+const ensureApiKeyTable = async (): Promise<void> => {
+  if (apiKeyReady) {
+    return;
+  }
+  await mysql.query(`
+    CREATE TABLE IF NOT EXISTS ${API_KEY_TABLE} (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      key_prefix VARCHAR(16) NOT NULL,
+      key_hash CHAR(64) NOT NULL,
+      scopes JSON NOT NULL,
+      expires_at DATETIME NULL,
+      last_used_at DATETIME NULL,
+      revoked_at DATETIME NULL,
+      created_by INT NULL,
+      created_at DATETIME NOT NULL,
+      UNIQUE KEY uk_key_hash (key_hash)
+    )
+  `);
+  apiKeyReady = true;
+};
+
+/**
+ * 计算密钥哈希
+ * 密钥为高强度随机值，使用 SHA-256 即可，无需加盐
+ * @param {string} key 密钥
+ * @returns {Promise<string>} 十六进制哈希
+ */
+const hashApiKey = async (key: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * 转换为不含密钥哈希的 API Key 信息
+ * @param {ApiKey} apiKey API Key
+ * @returns {ApiKeyInfo} API Key 信息
+ */
+const toApiKeyInfo = ({ key_hash: _hash, ...apiKey }: ApiKey): ApiKeyInfo => {
+  // JSON 列可能已被驱动解析为对象
+  return { ...apiKey, scopes: typeof apiKey.scopes === "string" ? JSON.parse(apiKey.scopes) : apiKey.scopes };
+};
+
+/**
+ * 创建 API Key
+ * @param {string} name 名称
+ * @param {Role[]} scopes 权限范围
+ * @param {string | null} expiresAt 过期时间，为空时永不过期
+ * @param {number | null} createdBy 创建人用户ID
+ * @returns {Promise<{ id: number; key: string }>} ID 和明文密钥，明文密钥只返回这一次
+ */
+export const createApiKey = async (
+  name: string,
+  scopes: Role[],
+  expiresAt: string | null,
+  createdBy: number | null,
+): Promise<{ id: number; key: string }> => {
+  await ensureApiKeyTable();
+  const random = Array.from(crypto.getRandomValues(new Uint8Array(24)), (byte) => byte.toString(16).padStart(2, "0"));
+  const key = `${KEY_PREFIX}${random.join("")}`;
+  const { id } = await mysql.insert(API_KEY_TABLE, {
+    name,
+    key_prefix: key.slice(0, KEY_PREFIX.length + 6),
+    key_hash: await hashApiKey(key),
+    scopes: JSON.stringify(scopes),
+    expires_at: expiresAt,
+    created_by: createdBy,
+    created_at: moment().format("YYYY-MM-DD HH:mm:ss"),
+  });
+  return { id, key };
+};
+
+/**
+ * 获取 API Key 列表
+ * @returns {Promise<ApiKeyInfo[]>} API Key 列表，不包含密钥
+ */
+export const listApiKeys = async (): Promise<ApiKeyInfo[]> => {
+  await ensureApiKeyTable();
+  const list = await mysql.findAll<ApiKey>(API_KEY_TABLE, undefined, ["*"], "id DESC");
+  return list.map(toApiKeyInfo);
+};
+
+/**
+ * 撤销 API Key
+ * @param {number} id API Key ID
+ * @returns {Promise<boolean>} 是否撤销成功，不存在或已撤销时返回 false
+ */
+export const revokeApiKey = async (id: number): Promise<boolean> => {
+  await ensureApiKeyTable();
+  const { affectedRows } = await mysql.execute(
+    `UPDATE ${API_KEY_TABLE} SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL`,
+    [moment().format("YYYY-MM-DD HH:mm:ss"), id],
+  );
+  return affectedRows > 0;
+};
+
+/**
+ * 校验 API Key
+ * 校验成功时更新最后使用时间，同一密钥每分钟最多更新一次
+ * @param {string} key 明文密钥
+ * @returns {Promise<ApiKeyInfo>} API Key 信息
+ * @throws {Error} 当密钥不存在、已撤销或已过期时抛出错误
+ */
+export const verifyApiKey = async (key: string): Promise<ApiKeyInfo> => {
+  await ensureApiKeyTable();
+  const apiKey = key.startsWith(KEY_PREFIX)
+    ? await mysql.findOne<ApiKey>(API_KEY_TABLE, { key_hash: await hashApiKey(key) })
+    : null;
+  if (!apiKey || apiKey.revoked_at) {
+    throw new Error("API Key 无效");
+  }
+  if (apiKey.expires_at && moment(apiKey.expires_at).isBefore(moment())) {
+    throw new Error("API Key 已过期");
+  }
+
+  const now = moment();
+  if (!apiKey.last_used_at || now.diff(moment(apiKey.last_used_at), "seconds") >= LAST_USED_INTERVAL) {
+    const lastUsedAt = now.format("YYYY-MM-DD HH:mm:ss");
+    apiKey.last_used_at = lastUsedAt;
+    mysql.update(API_KEY_TABLE, { last_used_at: lastUsedAt }, { id: apiKey.id }).catch((error) => {
+      logger.error(`更新 API Key 最后使用时间失败: ${apiKey.name}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+  return toApiKeyInfo(apiKey);
+};
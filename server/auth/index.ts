@@ -0,0 +1,248 @@
+import { RouterContext } from "https://deno.land/x/oak@v17.1.4/router.ts";
+import moment from "moment";
+import { errorBody, successBody } from "../utils/bodyFormat.ts";
+import type { FieldSchema, ParamSchema, RequestInput } from "../utils/validation.ts";
+import type { ResponseSchema } from "../utils/openapi.ts";
+import { signToken, verifyToken } from "../utils/jwt.ts";
+import { getAuthUser } from "../utils/request.ts";
+import { env } from "../config/env.ts";
+import { createUser, getUser, listUsers, ROLES, type UserInfo, verifyUser } from "./user.ts";
+import { API_KEY_SCOPES, createApiKey, listApiKeys, revokeApiKey } from "./apiKey.ts";
+
+/** 登录请求体规则 */
+export const loginBody = {
+  username: { type: "string", required: true, description: "用户名" },
+  password: { type: "string", required: true, description: "密码" },
+} as const satisfies ParamSchema;
+
+/** 刷新令牌请求体规则 */
+export const refreshTokenBody = {
+  refreshToken: { type: "string", required: true, description: "刷新令牌" },
+} as const satisfies ParamSchema;
+
+/** 创建用户请求体规则 */
+export const createUserDataBody = {
+  username: { type: "string", required: true, pattern: "^[A-Za-z0-9_.@-]+$", max: 100, description: "用户名" },
+  password: { type: "string", required: true, min: 8, max: 128, description: "密码，至少 8 位" },
+  roles: { type: "array", required: true, items: { type: "string", enum: ROLES }, description: "角色" },
+} as const satisfies ParamSchema;
+
+/** 创建 API Key 请求体规则 */
+export const createApiKeyDataBody = {
+  name: { type: "string", required: true, pattern: "\\S", max: 100, description: "名称" },
+  scopes: { type: "array", required: true, min: 1, items: { type: "string", enum: API_KEY_SCOPES }, description: "权限范围" },
+  expiresAt: {
+    type: "string",
+    pattern: "^\\d{4}-\\d{2}-\\d{2}( \\d{2}:\\d{2}:\\d{2})?$",
+    description: "过期时间，格式 YYYY-MM-DD 或 YYYY-MM-DD HH:mm:ss，不传时永不过期",
+  },
+} as const satisfies ParamSchema;
+
+/** 撤销 API Key 参数规则 */
+export const revokeApiKeyDataQuery = {
+  id: { type: "integer", required: true, min: 1, description: "API Key ID" },
+} as const satisfies ParamSchema;
+
+/** 用户信息响应规则 */
+const userSchema = {
+  type: "object",
+  properties: {
+    id: { type: "integer", description: "用户ID，API Key 认证时为 API Key ID" },
+    username: { type: "string", description: "用户名" },
+    roles: { type: "array", items: { type: "string", enum: ROLES }, description: "角色" },
+  },
+} satisfies FieldSchema;
+
+/** 登录和刷新令牌响应规则 */
+export const tokenResponse = {
+  schema: {
+    type: "object",
+    properties: {
+      accessToken: { type: "string", description: "访问令牌" },
+      refreshToken: { type: "string", description: "刷新令牌" },
+      expiresIn: { type: "integer", description: "访问令牌有效期 单位秒" },
+      user: userSchema,
+    },
+  },
+} satisfies ResponseSchema;
+
+/** 当前登录用户响应规则 */
+export const getCurrentUserResponse = {
+  schema: {
+    ...userSchema,
+    properties: { ...userSchema.properties, type: { type: "string", enum: ["token", "apiKey"], description: "认证方式" } },
+  },
+} satisfies ResponseSchema;
+
+/** 创建 API Key 响应规则 */
+export const createApiKeyDataResponse = {
+  schema: {
+    type: "object",
+    properties: {
+      id: { type: "integer", description: "API Key ID" },
+      name: { type: "string", description: "名称" },
+      key: { type: "string", description: "明文密钥，只返回这一次" },
+      expiresAt: { type: "string", description: "过期时间，为 null 时永不过期" },
+    },
+  },
+} satisfies ResponseSchema;
+
+/**
+ * 签发访问令牌和刷新令牌
+ * @param user 用户信息
+ */
+const issueTokens = async (user: UserInfo) => {
+  const payload = { sub: user.id, username: user.username, roles: user.roles };
+  const expiresIn = env.JWT_ACCESS_EXPIRES * 60;
+  return {
+    accessToken: await signToken({ ...payload, type: "access" }, expiresIn),
+    refreshToken: await signToken({ ...payload, type: "refresh" }, env.JWT_REFRESH_EXPIRES * 24 * 60 * 60),
+    expiresIn,
+    user: { id: user.id, username: user.username, roles: user.roles },
+  };
+};
+
+/**
+ * 登录
+ * 请求体为 JSON：{ "username": "admin", "password": "******" }
+ * 返回访问令牌 accessToken 和刷新令牌 refreshToken，请求其他接口时使用请求头 Authorization: Bearer accessToken
+ */
+export const login = async (ctx: RouterContext<string>, { body }: RequestInput<{ body: typeof loginBody }>) => {
+  let user;
+  try {
+    user = await verifyUser(body.username, body.password);
+  } catch (_error) {
+    ctx.response.body = errorBody("登录失败");
+    return
+  }
+  if (!user) {
+    ctx.response.status = 401;
+    ctx.response.body = errorBody("用户名或密码错误", null, 401);
+    return
+  }
+  ctx.response.body = successBody(await issueTokens(user));
+};
+
+/**
+ * 刷新令牌
+ * 请求体为 JSON：{ "refreshToken": "..." }
+ * 用户被停用后无法刷新，角色变更在刷新后生效
+ */
+export const refreshToken = async (
+  ctx: RouterContext<string>,
+  { body }: RequestInput<{ body: typeof refreshTokenBody }>,
+) => {
+  let user;
+  try {
+    const payload = await verifyToken(body.refreshToken, "refresh");
+    user = await getUser(payload.sub);
+  } catch (error) {
+    ctx.response.status = 401;
+    ctx.response.body = errorBody((error as Error).message, null, 401);
+    return
+  }
+  if (!user || !user.enabled) {
+    ctx.response.status = 401;
+    ctx.response.body = errorBody("用户不存在或已停用", null, 401);
+    return
+  }
+  ctx.response.body = successBody(await issueTokens(user));
+};
+
+/**
+ * 查询当前登录用户
+ */
+export const getCurrentUser = (ctx: RouterContext<string>) => {
+  ctx.response.body = successBody(getAuthUser(ctx));
+};
+
+/**
+ * 查询用户列表
+ */
+export const getUserList = async (ctx: RouterContext<string>) => {
+  try {
+    ctx.response.body = successBody(await listUsers());
+  } catch (_error) {
+    ctx.response.body = errorBody("查询用户失败");
+  }
+};
+
+/**
+ * 创建用户
+ * 请求体为 JSON：{ "username": "zhangsan", "password": "******", "roles": ["importer", "exporter"] }
+ */
+export const createUserData = async (
+  ctx: RouterContext<string>,
+  { body }: RequestInput<{ body: typeof createUserDataBody }>,
+) => {
+  try {
+    const id = await createUser(body.username, body.password, [...new Set(body.roles)]);
+    ctx.response.body = successBody({ id, username: body.username });
+  } catch (error) {
+    ctx.response.body = errorBody(error instanceof Error ? error.message : "创建用户失败");
+  }
+};
+
+/**
+ * 创建 API Key
+ * 请求体为 JSON：{ "name": "nightly-etl", "scopes": ["importer"], "expiresAt": "2025-12-31" }
+ * 返回的明文密钥 key 只显示这一次，调用接口时使用请求头 X-API-Key: key
+ */
+export const createApiKeyData = async (
+  ctx: RouterContext<string>,
+  { body }: RequestInput<{ body: typeof createApiKeyDataBody }>,
+) => {
+  let expiresAt = null;
+  if (body.expiresAt) {
+    const date = moment(body.expiresAt, ["YYYY-MM-DD HH:mm:ss", "YYYY-MM-DD"], true);
+    if (!date.isValid()) {
+      ctx.response.status = 400;
+      ctx.response.body = errorBody("expiresAt参数格式错误", null, 400);
+      return
+    }
+    // 只传日期时到当天结束过期
+    if (date.creationData().format === "YYYY-MM-DD") {
+      date.endOf("day");
+    }
+    if (date.isBefore(moment())) {
+      ctx.response.status = 400;
+      ctx.response.body = errorBody("expiresAt参数必须晚于当前时间", null, 400);
+      return
+    }
+    expiresAt = date.format("YYYY-MM-DD HH:mm:ss");
+  }
+  try {
+    const { id, key } = await createApiKey(body.name.trim(), [...new Set(body.scopes)], expiresAt, getAuthUser(ctx)?.id ?? null);
+    ctx.response.body = successBody({ id, name: body.name.trim(), key, expiresAt });
+  } catch (_error) {
+    ctx.response.body = errorBody("创建API Key失败");
+  }
+};
+
+/**
+ * 查询 API Key 列表
+ * 不返回密钥，只返回用于识别的前缀 key_prefix
+ */
+export const getApiKeyList = async (ctx: RouterContext<string>) => {
+  try {
+    ctx.response.body = successBody(await listApiKeys());
+  } catch (_error) {
+    ctx.response.body = errorBody("查询API Key失败");
+  }
+};
+
+/**
+ * 撤销 API Key
+ * @param id API Key ID
+ */
+export const revokeApiKeyData = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof revokeApiKeyDataQuery }>,
+) => {
+  try {
+    const revoked = await revokeApiKey(query.id);
+    ctx.response.body = revoked ? successBody({ id: query.id }) : errorBody("API Key不存在或已撤销");
+  } catch (_error) {
+    ctx.response.body = errorBody("撤销API Key失败");
+  }
+};
@@ -0,0 +1,216 @@
+/**
+ * 用户管理
+ * 用户保存在 set_user 表中，密码使用 PBKDF2-SHA256 加盐哈希，格式为 pbkdf2$迭代次数$盐$哈希
+ *
+ * @example
+ * ```ts
+ * await createUser("zhangsan", "p@ssw0rd", ["importer"]);
+ * const user = await verifyUser("zhangsan", "p@ssw0rd");
+ * ```
+ */
+import moment from "moment";
+import { mysql } from "../utils/mysql.ts";
+import { logger } from "../utils/logger.ts";
+import { env } from "../config/env.ts";
+
+/** 用户表 */
+export const USER_TABLE = "set_user";
+
+/** 角色：admin 管理员，importer 导入数据，exporter 导出数据 */
+export type Role = "admin" | "importer" | "exporter";
+
+/** 角色列表 */
+export const ROLES: Role[] = ["admin", "importer", "exporter"];
+
+/**
+ * 用户接口，对应 set_user 表
+ */
+export interface User {
+  /** 用户ID */
+  id: number;
+  /** 用户名 */
+  username: string;
+  /** 密码哈希 */
+  password_hash: string;
+  /** 角色 JSON */
+  roles: string | Role[];
+  /** 是否启用 */
+  enabled: number;
+  /** 最后登录时间 */
+  last_login_at: string | null;
+  /** 创建时间 */
+  created_at: string;
+}
+
+/** 不含密码哈希的用户信息 */
+export type UserInfo = Omit<User, "password_hash" | "roles"> & { roles: Role[] };
+
+/** PBKDF2 迭代次数 */
+const PBKDF2_ITERATIONS = 100000;
+
+const encoder = new TextEncoder();
+
+let userReady = false;
+
+/**
+ * 确保 set_user 表存在
+ */
+const ensureUserTable = async (): Promise<void> => {
+  if (userReady) {
+    return;
+  }
+  await mysql.query(`
+    CREATE TABLE IF NOT EXISTS ${USER_TABLE} (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      username VARCHAR(100) NOT NULL,
+      password_hash VARCHAR(255) NOT NULL,
+      roles JSON NOT NULL,
+      enabled TINYINT NOT NULL DEFAULT 1,
+      last_login_at DATETIME NULL,
+      created_at DATETIME NOT NULL,
+      UNIQUE KEY uk_username (username)
+    )
+  `);
+  userReady = true;
+};
+
+/**
+ * 字节转十六进制字符串
+ * @param {Uint8Array} bytes 字节
+ * @returns {string} 十六进制字符串
+ */
+const toHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * 计算 PBKDF2 哈希
+ * @param {string} password 密码
+ * @param {string} salt 十六进制盐值
+ * @param {number} iterations 迭代次数
+ * @returns {Promise<string>} 十六进制哈希
+ */
+const pbkdf2 = async (password: string, salt: string, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: encoder.encode(salt), iterations },
+    key,
+    256,
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+/**
+ * 生成密码哈希
+ * @param {string} password 密码
+ * @returns {Promise<string>} 密码哈希
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${salt}$${await pbkdf2(password, salt, PBKDF2_ITERATIONS)}`;
+};
+
+/**
+ * 校验密码
+ * @param {string} password 密码
+ * @param {string} passwordHash 密码哈希
+ * @returns {Promise<boolean>} 密码是否正确
+ */
+export const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+  const [scheme, iterations, salt, hash] = passwordHash.split("$");
+  if (scheme !== "pbkdf2" || !salt || !hash) {
+    return false;
+  }
+  const actual = await pbkdf2(password, salt, Number(iterations));
+  // 逐位比较，避免按耗时猜测哈希
+  let diff = actual.length ^ hash.length;
+  for (let i = 0; i < actual.length; i++) {
+    diff |= actual.charCodeAt(i) ^ hash.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+/**
+ * 转换为不含密码哈希的用户信息
+ * @param {User} user 用户
+ * @returns {UserInfo} 用户信息
+ */
+const toUserInfo = ({ password_hash: _hash, ...user }: User): UserInfo => {
+  // JSON 列可能已被驱动解析为对象
+  return { ...user, roles: typeof user.roles === "string" ? JSON.parse(user.roles) : user.roles };
+};
+
+/**
+ * 根据ID获取用户
+ * @param {number} id 用户ID
+ * @returns {Promise<UserInfo | null>} 用户信息，未找到时返回 null
+ */
+export const getUser = async (id: number): Promise<UserInfo | null> => {
+  await ensureUserTable();
+  const user = await mysql.findOne<User>(USER_TABLE, { id });
+  return user ? toUserInfo(user) : null;
+};
+
+/**
+ * 获取用户列表
+ * @returns {Promise<UserInfo[]>} 用户列表
+ */
+export const listUsers = async (): Promise<UserInfo[]> => {
+  await ensureUserTable();
+  const list = await mysql.findAll<User>(USER_TABLE, undefined, ["*"], "id");
+  return list.map(toUserInfo);
+};
+
+/**
+ * 创建用户
+ * @param {string} username 用户名
+ * @param {string} password 密码
+ * @param {Role[]} roles 角色
+ * @returns {Promise<number>} 用户ID
+ * @throws {Error} 当用户名已存在时抛出错误
+ */
+export const createUser = async (username: string, password: string, roles: Role[]): Promise<number> => {
+  await ensureUserTable();
+  if (await mysql.findOne<User>(USER_TABLE, { username })) {
+    throw new Error(`用户名已存在: ${username}`);
+  }
+  const { id } = await mysql.insert(USER_TABLE, {
+    username,
+    password_hash: await hashPassword(password),
+    roles: JSON.stringify(roles),
+    enabled: 1,
+    created_at: moment().format("YYYY-MM-DD HH:mm:ss"),
+  });
+  return id;
+};
+
+/**
+ * 校验用户名和密码
+ * 校验成功时更新最后登录时间
+ * @param {string} username 用户名
+ * @param {string} password 密码
+ * @returns {Promise<UserInfo | null>} 用户信息，用户不存在、已停用或密码错误时返回 null
+ */
+export const verifyUser = async (username: string, password: string): Promise<UserInfo | null> => {
+  await ensureUserTable();
+  const user = await mysql.findOne<User>(USER_TABLE, { username });
+  if (!user || !user.enabled || !(await verifyPassword(password, user.password_hash))) {
+    return null;
+  }
+  const lastLoginAt = moment().format("YYYY-MM-DD HH:mm:ss");
+  await mysql.update(USER_TABLE, { last_login_at: lastLoginAt }, { id: user.id });
+  return toUserInfo({ ...user, last_login_at: lastLoginAt });
+};
+
+/**
+ * 创建初始管理员
+ * 用户表为空且配置了 ADMIN_PASSWORD 时，使用 ADMIN_USERNAME 创建管理员账号
+ */
+export const ensureAdminUser = async (): Promise<void> => {
+  await ensureUserTable();
+  if (!env.ADMIN_PASSWORD || await mysql.count(USER_TABLE) > 0) {
+    return;
+  }
+  await createUser(env.ADMIN_USERNAME, env.ADMIN_PASSWORD, ["admin"]);
+  logger.info(`已创建初始管理员: ${env.ADMIN_USERNAME}`);
+};
@@ -31,6 +31,52 @@ interface EnvConfig {
 
   // 日志文件多久删除一次
   DEL_LOG_TIME: number;
+
+  // 上传文件保存目录
+  UPLOAD_DIR: string;
+  // 上传文件大小限制 单位MB
+  UPLOAD_MAX_SIZE: number;
+
+  // 监听目录配置文件路径，为空时不启用
+  WATCH_CONFIG: string;
+
+  // 数据目录，读取接口只能访问该目录下的文件
+  DATA_ROOT: string;
+
+  // JWT 签名密钥，为空时使用随机密钥
+  JWT_SECRET: string;
+  // 访问令牌有效期 单位分钟
+  JWT_ACCESS_EXPIRES: number;
+  // 刷新令牌有效期 单位天
+  JWT_REFRESH_EXPIRES: number;
+  // 初始管理员账号，用户表为空时创建
+  ADMIN_USERNAME: string;
+  // 初始管理员密码，为空时不创建
+  ADMIN_PASSWORD: string;
+
+  // 默认限流：窗口内每个客户端每个接口允许的最大请求数，为 0 时不限流
+  RATE_LIMIT_MAX: number;
+  // 限流窗口时长 单位秒
+  RATE_LIMIT_WINDOW: number;
+  // 限流计数存储 memory/mysql，多实例部署时使用 mysql
+  RATE_LIMIT_STORE: string;
+
+  // 允许跨域的来源，逗号分隔，支持 * 通配符，为空时不允许跨域
+  CORS_ORIGINS: string;
+  // 允许跨域的请求方法，逗号分隔
+  CORS_METHODS: string;
+  // 允许跨域的请求头，逗号分隔，* 表示允许任意请求头
+  CORS_HEADERS: string;
+  // 是否允许跨域携带凭证
+  CORS_CREDENTIALS: boolean;
+  // 预检请求缓存时间 单位秒
+  CORS_MAX_AGE: number;
+
+  // 停机时每个步骤的最长等待时间 单位秒
+  SHUTDOWN_TIMEOUT: number;
+
+  // 是否提供接口文档 PREFIX/openapi.json 和 PREFIX/docs
+  API_DOCS: boolean;
 }
 
 // 各环境配置
@@ -46,7 +92,26 @@ const envConfigs: Record<EnvType, EnvConfig> = {
     DB_USER: "root",
     DB_PASSWORD: "123456",
     DB_DATABASE: "deno",
-    DEL_LOG_TIME: 12
+    DEL_LOG_TIME: 12,
+    UPLOAD_DIR: "./uploads",
+    UPLOAD_MAX_SIZE: 20,
+    WATCH_CONFIG: "",
+    DATA_ROOT: "./data",
+    JWT_SECRET: "",
+    JWT_ACCESS_EXPIRES: 30,
+    JWT_REFRESH_EXPIRES: 7,
+    ADMIN_USERNAME: "admin",
+    ADMIN_PASSWORD: "",
+    RATE_LIMIT_MAX: 300,
+    RATE_LIMIT_WINDOW: 60,
+    RATE_LIMIT_STORE: "memory",
+    CORS_ORIGINS: "http://localhost:*,http://127.0.0.1:*",
+    CORS_METHODS: "GET,POST,PUT,DELETE",
+    CORS_HEADERS: "Content-Type,Authorization,X-API-Key",
+    CORS_CREDENTIALS: false,
+    CORS_MAX_AGE: 600,
+    SHUTDOWN_TIMEOUT: 30,
+    API_DOCS: true
   },
   // 测试环境
   test: {
@@ -59,7 +124,26 @@ const envConfigs: Record<EnvType, EnvConfig> = {
     DB_USER: "root",
     DB_PASSWORD: "123456",
     DB_DATABASE: "deno",
-    DEL_LOG_TIME: 12
+    DEL_LOG_TIME: 12,
+    UPLOAD_DIR: "./uploads",
+    UPLOAD_MAX_SIZE: 20,
+    WATCH_CONFIG: "",
+    DATA_ROOT: "./data",
+    JWT_SECRET: "",
+    JWT_ACCESS_EXPIRES: 30,
+    JWT_REFRESH_EXPIRES: 7,
+    ADMIN_USERNAME: "admin",
+    ADMIN_PASSWORD: "",
+    RATE_LIMIT_MAX: 300,
+    RATE_LIMIT_WINDOW: 60,
+    RATE_LIMIT_STORE: "memory",
+    CORS_ORIGINS: "",
+    CORS_METHODS: "GET,POST,PUT,DELETE",
+    CORS_HEADERS: "Content-Type,Authorization,X-API-Key",
+    CORS_CREDENTIALS: false,
+    CORS_MAX_AGE: 600,
+    SHUTDOWN_TIMEOUT: 30,
+    API_DOCS: true
   },
   // 生产环境
   production: {
@@ -72,7 +156,26 @@ const envConfigs: Record<EnvType, EnvConfig> = {
     DB_USER: "root",
     DB_PASSWORD: "123456",
     DB_DATABASE: "deno",
-    DEL_LOG_TIME: 12
+    DEL_LOG_TIME: 12,
+    UPLOAD_DIR: "./uploads",
+    UPLOAD_MAX_SIZE: 20,
+    WATCH_CONFIG: "",
+    DATA_ROOT: "./data",
+    JWT_SECRET: "",
+    JWT_ACCESS_EXPIRES: 30,
+    JWT_REFRESH_EXPIRES: 7,
+    ADMIN_USERNAME: "admin",
+    ADMIN_PASSWORD: "",
+    RATE_LIMIT_MAX: 300,
+    RATE_LIMIT_WINDOW: 60,
+    RATE_LIMIT_STORE: "memory",
+    CORS_ORIGINS: "",
+    CORS_METHODS: "GET,POST,PUT,DELETE",
+    CORS_HEADERS: "Content-Type,Authorization,X-API-Key",
+    CORS_CREDENTIALS: false,
+    CORS_MAX_AGE: 600,
+    SHUTDOWN_TIMEOUT: 30,
+    API_DOCS: false
   },
 };
 
@@ -108,7 +211,26 @@ export function getEnv(): EnvConfig {
       DB_USER: sysEnv.DB_USER || defaultConfig.DB_USER,
       DB_PASSWORD: sysEnv.DB_PASSWORD || defaultConfig.DB_PASSWORD,
       DB_DATABASE: sysEnv.DB_DATABASE || defaultConfig.DB_DATABASE,
-      DEL_LOG_TIME: Number(sysEnv.DEL_LOG_TIME || defaultConfig.DEL_LOG_TIME)
+      DEL_LOG_TIME: Number(sysEnv.DEL_LOG_TIME || defaultConfig.DEL_LOG_TIME),
+      UPLOAD_DIR: sysEnv.UPLOAD_DIR || defaultConfig.UPLOAD_DIR,
+      UPLOAD_MAX_SIZE: Number(sysEnv.UPLOAD_MAX_SIZE || defaultConfig.UPLOAD_MAX_SIZE),
+      WATCH_CONFIG: sysEnv.WATCH_CONFIG || defaultConfig.WATCH_CONFIG,
+      DATA_ROOT: sysEnv.DATA_ROOT || defaultConfig.DATA_ROOT,
+      JWT_SECRET: sysEnv.JWT_SECRET || defaultConfig.JWT_SECRET,
+      JWT_ACCESS_EXPIRES: Number(sysEnv.JWT_ACCESS_EXPIRES || defaultConfig.JWT_ACCESS_EXPIRES),
+      JWT_REFRESH_EXPIRES: Number(sysEnv.JWT_REFRESH_EXPIRES || defaultConfig.JWT_REFRESH_EXPIRES),
+      ADMIN_USERNAME: sysEnv.ADMIN_USERNAME || defaultConfig.ADMIN_USERNAME,
+      ADMIN_PASSWORD: sysEnv.ADMIN_PASSWORD || defaultConfig.ADMIN_PASSWORD,
+      RATE_LIMIT_MAX: Number(sysEnv.RATE_LIMIT_MAX || defaultConfig.RATE_LIMIT_MAX),
+      RATE_LIMIT_WINDOW: Number(sysEnv.RATE_LIMIT_WINDOW || defaultConfig.RATE_LIMIT_WINDOW),
+      RATE_LIMIT_STORE: sysEnv.RATE_LIMIT_STORE || defaultConfig.RATE_LIMIT_STORE,
+      CORS_ORIGINS: sysEnv.CORS_ORIGINS ?? defaultConfig.CORS_ORIGINS,
+      CORS_METHODS: sysEnv.CORS_METHODS || defaultConfig.CORS_METHODS,
+      CORS_HEADERS: sysEnv.CORS_HEADERS || defaultConfig.CORS_HEADERS,
+      CORS_CREDENTIALS: sysEnv.CORS_CREDENTIALS ? sysEnv.CORS_CREDENTIALS === "true" : defaultConfig.CORS_CREDENTIALS,
+      CORS_MAX_AGE: Number(sysEnv.CORS_MAX_AGE || defaultConfig.CORS_MAX_AGE),
+      SHUTDOWN_TIMEOUT: Number(sysEnv.SHUTDOWN_TIMEOUT || defaultConfig.SHUTDOWN_TIMEOUT),
+      API_DOCS: sysEnv.API_DOCS ? sysEnv.API_DOCS === "true" : defaultConfig.API_DOCS
     };
   } catch (error) {
     logger.error("读取环境变量失败", { error });
@@ -0,0 +1,274 @@
+/**
+ * 数据集导入工具
+ * 将解析后的文件数据写入动态创建的数据表，并在 set_data_info 中记录文件与数据表的对应关系
+ *
+ * @example
+ * ```ts
+ * const rows = await readFileRows("./data.csv");
+ * const result = await importDataset("data.csv", rows);
+ * ```
+ */
+import moment from "moment";
+import { escapeId, mysql, type PoolConnection } from "../utils/mysql.ts";
+import { logger } from "../utils/logger.ts";
+import { metrics } from "../utils/metrics.ts";
+import type { RowData } from "../read/parser.ts";
+import { type ColumnInfo, convertRow, inferColumns } from "./schema.ts";
+
+/** 数据集信息表 */
+export const DATA_INFO_TABLE = "set_data_info";
+/** 数据集导入版本表 */
+export const DATA_REVISION_TABLE = "set_data_revision";
+
+/** 导入行数指标，mode 为 create 新建或 upsert 增量导入，action 为 added/changed/removed */
+export const importRows = metrics.counter({
+  name: "import_rows_total",
+  help: "数据集导入行数",
+  labelNames: ["mode", "action"],
+});
+
+/** 单次批量插入的最大行数 */
+const BATCH_SIZE = 1000;
+/** 单条 SQL 的最大参数个数，MySQL 预处理语句限制为 65535 */
+const MAX_PARAMS = 60000;
+
+/**
+ * 数据集信息接口，对应 set_data_info 表
+ */
+export interface DataInfo {
+  /** 数据集ID */
+  id: number;
+  /** 文件名称 */
+  file_name: string;
+  /** 数据表名 */
+  data_table: string;
+  /** 数据行数 */
+  row_count: number;
+  /** 列信息 JSON */
+  column_info: string | ColumnInfo[];
+  /** 创建时间 */
+  created_at: string;
+}
+
+/** 导入方式：create 新建数据集，upsert 按键列增量导入 */
+export type RevisionMode = "create" | "upsert";
+
+/**
+ * 数据集导入版本接口，对应 set_data_revision 表
+ */
+export interface DataRevision {
+  /** 版本记录ID */
+  id: number;
+  /** 数据集ID */
+  dataset_id: number;
+  /** 版本号，从1开始 */
+  revision: number;
+  /** 文件名称 */
+  file_name: string;
+  /** 导入方式 */
+  mode: RevisionMode;
+  /** 键列 JSON */
+  key_columns: string | string[] | null;
+  /** 新增行数 */
+  added: number;
+  /** 修改行数 */
+  changed: number;
+  /** 删除行数 */
+  removed: number;
+  /** 未变化行数 */
+  unchanged: number;
+  /** 导入后的数据行数 */
+  row_count: number;
+  /** 创建时间 */
+  created_at: string;
+}
+
+/**
+ * 数据集导入结果接口
+ */
+export interface ImportResult {
+  /** 数据集ID */
+  id: number;
+  /** 数据表名 */
+  table: string;
+  /** 导入行数 */
+  rowCount: number;
+  /** 列信息 */
+  columns: ColumnInfo[];
+}
+
+/**
+ * 数据集导入配置接口
+ */
+export interface ImportOptions {
+  /** 取消信号，触发后中止导入并回滚 */
+  signal?: AbortSignal;
+  /** 数据表创建后回调 */
+  onTable?: (table: string) => Promise<void> | void;
+  /** 每批数据写入后回调 */
+  onProgress?: (processed: number, total: number) => Promise<void> | void;
+}
+
+let dataInfoReady = false;
+
+/**
+ * 确保 set_data_info 和 set_data_revision 表存在
+ */
+export const ensureDataInfoTable = async (): Promise<void> => {
+  if (dataInfoReady) {
+    return;
+  }
+  await mysql.query(`
+    CREATE TABLE IF NOT EXISTS ${DATA_INFO_TABLE} (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      file_name VARCHAR(255) NOT NULL,
+      data_table VARCHAR(64) NOT NULL,
+      row_count INT NOT NULL DEFAULT 0,
+      column_info JSON NULL,
+      created_at DATETIME NOT NULL
+    )
+  `);
+  await mysql.query(`
+    CREATE TABLE IF NOT EXISTS ${DATA_REVISION_TABLE} (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      dataset_id INT NOT NULL,
+      revision INT NOT NULL,
+      file_name VARCHAR(255) NOT NULL,
+      mode VARCHAR(16) NOT NULL,
+      key_columns JSON NULL,
+      added INT NOT NULL DEFAULT 0,
+      changed INT NOT NULL DEFAULT 0,
+      removed INT NOT NULL DEFAULT 0,
+      unchanged INT NOT NULL DEFAULT 0,
+      row_count INT NOT NULL DEFAULT 0,
+      created_at DATETIME NOT NULL,
+      INDEX idx_dataset_id (dataset_id)
+    )
+  `);
+  dataInfoReady = true;
+};
+
+/**
+ * 根据ID获取数据集信息
+ * @param {number} id 数据集ID
+ * @returns {Promise<(Omit<DataInfo, "column_info"> & { column_info: ColumnInfo[] }) | null>} 数据集信息，列信息已解析，未找到时返回 null
+ */
+export const getDataInfo = async (id: number): Promise<(Omit<DataInfo, "column_info"> & { column_info: ColumnInfo[] }) | null> => {
+  await ensureDataInfoTable();
+  const info = await mysql.findOne<DataInfo>(DATA_INFO_TABLE, { id });
+  if (!info) {
+    return null;
+  }
+  // JSON 列可能已被驱动解析为对象
+  const columns = typeof info.column_info === "string" ? JSON.parse(info.column_info) : info.column_info;
+  return { ...info, column_info: columns ?? [] };
+};
+
+/**
+ * 生成数据表名
+ * @returns {string} 数据表名，格式 data_YYYYMMDDHHmmss_xxxxxxxx
+ */
+const createTableName = (): string => {
+  return `data_${moment().format("YYYYMMDDHHmmss")}_${crypto.randomUUID().slice(0, 8)}`;
+};
+
+/**
+ * 构建建表语句
+ * @param {string} table 表名
+ * @param {ColumnInfo[]} columns 列信息
+ * @returns {string} 建表 SQL
+ */
+export const buildCreateTableSql = (table: string, columns: ColumnInfo[]): string => {
+  const definitions = [
+    "`id` BIGINT AUTO_INCREMENT PRIMARY KEY",
+    ...columns.map((column) => `${escapeId(column.name)} ${column.sqlType} NULL`),
+  ];
+  return `CREATE TABLE ${escapeId(table)} (${definitions.join(", ")}) DEFAULT CHARSET=utf8mb4`;
+};
+
+/**
+ * 将行数据批量写入数据表
+ * @param {PoolConnection} conn 事务连接
+ * @param {string} table 表名
+ * @param {RowData[]} rows 行数据
+ * @param {ColumnInfo[]} columns 列信息
+ * @param {ImportOptions} [options] 导入配置，用于取消和进度回调
+ */
+export const insertRows = async (
+  conn: PoolConnection,
+  table: string,
+  rows: RowData[],
+  columns: ColumnInfo[],
+  options: ImportOptions = {},
+): Promise<void> => {
+  const size = Math.max(1, Math.min(BATCH_SIZE, Math.floor(MAX_PARAMS / Math.max(columns.length, 1))));
+  for (let i = 0; i < rows.length; i += size) {
+    options.signal?.throwIfAborted();
+    const records = rows.slice(i, i + size).map((row) => convertRow(row, columns));
+    await mysql.batchInsert(escapeId(table), records, conn);
+    await options.onProgress?.(Math.min(i + size, rows.length), rows.length);
+  }
+};
+
+/**
+ * 导入数据集
+ * 建表语句会隐式提交事务，因此导入失败时除回滚事务外还需要删除已创建的数据表
+ * @param {string} fileName 文件名称
+ * @param {RowData[]} rows 行数据
+ * @param {ImportOptions} [options] 导入配置
+ * @returns {Promise<ImportResult>} 导入结果
+ * @throws {Error} 当数据为空、导入失败或被取消时抛出错误
+ */
+export const importDataset = async (fileName: string, rows: RowData[], options: ImportOptions = {}): Promise<ImportResult> => {
+  if (rows.length === 0) {
+    throw new Error("文件没有可导入的数据");
+  }
+  const columns = inferColumns(rows);
+  if (columns.length === 0) {
+    throw new Error("文件没有可导入的列");
+  }
+
+  await ensureDataInfoTable();
+
+  const table = createTableName();
+  await mysql.query(buildCreateTableSql(table, columns));
+
+  try {
+    await options.onTable?.(table);
+    const result = await mysql.transaction(async (conn) => {
+      await insertRows(conn, table, rows, columns, options);
+      options.signal?.throwIfAborted();
+      const createdAt = moment().format("YYYY-MM-DD HH:mm:ss");
+      const { id } = await mysql.insert(DATA_INFO_TABLE, {
+        file_name: fileName,
+        data_table: table,
+        row_count: rows.length,
+        column_info: JSON.stringify(columns),
+        created_at: createdAt,
+      }, conn);
+      await mysql.insert(DATA_REVISION_TABLE, {
+        dataset_id: id,
+        revision: 1,
+        file_name: fileName,
+        mode: "create",
+        added: rows.length,
+        row_count: rows.length,
+        created_at: createdAt,
+      }, conn);
+      return { id, table, rowCount: rows.length, columns };
+    });
+    importRows.inc({ mode: "create", action: "added" }, rows.length);
+    logger.info(`数据集导入成功: ${fileName}`, { id: result.id, table, rowCount: rows.length });
+    return result;
+  } catch (error) {
+    // 事务已回滚，删除已创建的数据表
+    try {
+      await mysql.query(`DROP TABLE IF EXISTS ${escapeId(table)}`);
+    } catch (dropError) {
+      logger.error(`删除数据表失败: ${table}`, {
+        error: dropError instanceof Error ? dropError.message : String(dropError),
+      });
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,292 @@
+import { RouterContext } from "https://deno.land/x/oak@v17.1.4/router.ts";
+import { errorBody, successBody } from "../utils/bodyFormat.ts";
+import { escapeId, isQueryOperator, mysql, type QueryParams } from "../utils/mysql.ts";
+import type { ParamSchema, RequestInput } from "../utils/validation.ts";
+import { getFileName, getMapping, getReadOptions, getSchema, importQuery, resolveFilePath } from "../read/params.ts";
+import { readFileRows } from "../read/parser.ts";
+import {
+  DATA_INFO_TABLE,
+  DATA_REVISION_TABLE,
+  type DataInfo,
+  type DataRevision,
+  ensureDataInfoTable,
+  getDataInfo,
+} from "./importer.ts";
+import { RESERVED_COLUMNS } from "./schema.ts";
+import { prepareRows } from "./prepare.ts";
+import { reimportDataset } from "./upsert.ts";
+
+/** 默认每页行数 */
+const DEFAULT_PAGE_SIZE = 20;
+/** 最大每页行数 */
+const MAX_PAGE_SIZE = 1000;
+
+/** 数据集ID参数规则 */
+const datasetIdQuery = {
+  datasetId: { type: "integer", required: true, min: 1, description: "数据集ID" },
+} as const satisfies ParamSchema;
+
+/** getDatasetList 参数规则 */
+export const getDatasetListQuery = {
+  limit: { type: "integer", min: 1, max: 500, default: 50, description: "返回数量" },
+} as const satisfies ParamSchema;
+
+/** queryDataset 参数规则 */
+export const queryDatasetQuery = {
+  ...datasetIdQuery,
+  page: { type: "integer", min: 1, default: 1, description: "页码（从1开始）" },
+  pageSize: { type: "integer", min: 1, max: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE, description: "每页行数" },
+  sort: { type: "string", default: "id", description: "排序列" },
+  order: { type: "string", enum: ["asc", "desc"], default: "asc", description: "排序方向" },
+  filters: { type: "string", description: "JSON 格式的筛选条件" },
+} as const satisfies ParamSchema;
+
+/** reimportDatasetFile 参数规则 */
+export const reimportDatasetFileQuery = {
+  ...datasetIdQuery,
+  ...importQuery,
+  keys: { type: "string", required: true, description: "键列，多个用英文逗号分隔" },
+  deleteMissing: { type: "boolean", default: false, description: "是否删除文件中不存在的行" },
+} as const satisfies ParamSchema;
+
+/** getDatasetRevisions 参数规则 */
+export const getDatasetRevisionsQuery = datasetIdQuery;
+
+/**
+ * 判断是否为可用作查询条件的基础值
+ * @param {unknown} value 值
+ * @returns {boolean} 是否为字符串、数字、布尔值或 null
+ */
+const isPrimitive = (value: unknown): boolean => {
+  return value === null || ["string", "number", "boolean"].includes(typeof value);
+};
+
+/**
+ * 解析并校验筛选条件
+ * 列名必须是数据集中存在的列，值为基础值时按相等匹配（null 匹配空值），为对象时按 QueryOperator 操作符匹配
+ * @param {string | undefined} filters JSON 格式的筛选条件
+ * @param {string[]} columns 可用的列名
+ * @returns {QueryParams} 查询条件
+ * @throws {Error} 当筛选条件格式错误或列不存在时抛出错误
+ */
+export const parseFilters = (filters: string | undefined, columns: string[]): QueryParams => {
+  if (!filters) {
+    return {};
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(filters);
+  } catch (_error) {
+    throw new Error("filters参数必须为JSON对象");
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("filters参数必须为JSON对象");
+  }
+
+  const conditions: QueryParams = {};
+  for (const [column, condition] of Object.entries(value)) {
+    if (!columns.includes(column)) {
+      throw new Error(`筛选列不存在: ${column}`);
+    }
+    if (isPrimitive(condition)) {
+      conditions[column] = condition;
+      continue;
+    }
+    if (!isQueryOperator(condition)) {
+      throw new Error(`列 ${column} 的筛选条件格式错误，支持 eq、ne、contains、gt、gte、lt、lte、in`);
+    }
+    for (const [op, opValue] of Object.entries(condition)) {
+      const isValid = op === "in"
+        ? Array.isArray(opValue) && opValue.length > 0 && opValue.every(isPrimitive)
+        : isPrimitive(opValue);
+      if (!isValid) {
+        throw new Error(`列 ${column} 的 ${op} 条件值格式错误`);
+      }
+    }
+    conditions[column] = condition;
+  }
+  return conditions;
+};
+
+/**
+ * 查询数据集列表
+ * @param limit 返回数量，默认 50
+ */
+export const getDatasetList = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof getDatasetListQuery }>,
+) => {
+  try {
+    await ensureDataInfoTable();
+    const list = await mysql.findAll<DataInfo>(
+      DATA_INFO_TABLE,
+      undefined,
+      ["id", "file_name", "data_table", "row_count", "created_at"],
+      "id DESC",
+      query.limit,
+    );
+    ctx.response.body = successBody(list);
+  } catch (_error) {
+    ctx.response.body = errorBody("查询数据集失败");
+  }
+};
+
+/**
+ * 分页查询数据集数据
+ * @param datasetId 数据集ID
+ * @param page 页码（从1开始），默认 1
+ * @param pageSize 每页行数，默认 20，最大 1000
+ * @param sort 排序列，默认 id
+ * @param order 排序方向 asc/desc，默认 asc
+ * @param filters 筛选条件，JSON 对象，如 {"城市":"北京","金额":{"gte":100,"lt":500},"状态":{"in":["A","B"]},"名称":{"contains":"张"}}
+ */
+export const queryDataset = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof queryDatasetQuery }>,
+) => {
+  const { datasetId, page, pageSize, sort, order } = query;
+
+  let info;
+  try {
+    info = await getDataInfo(datasetId);
+  } catch (_error) {
+    ctx.response.body = errorBody("查询数据集失败");
+    return
+  }
+  if (!info) {
+    ctx.response.status = 404;
+    ctx.response.body = errorBody("数据集不存在", null, 404);
+    return
+  }
+
+  // 列名和排序列只允许使用数据集中真实存在的列，防止 SQL 注入
+  const columns = [...RESERVED_COLUMNS, ...info.column_info.map((column) => column.name)];
+  if (!columns.includes(sort)) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody(`排序列不存在: ${sort}`, null, 400);
+    return
+  }
+  let conditions;
+  try {
+    conditions = parseFilters(query.filters, columns);
+  } catch (error) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody(error instanceof Error ? error.message : String(error), null, 400);
+    return
+  }
+
+  try {
+    const table = escapeId(info.data_table);
+    const [total, rows] = await Promise.all([
+      mysql.count(table, conditions),
+      mysql.findAll(
+        table,
+        conditions,
+        columns.map(escapeId),
+        `${escapeId(sort)} ${order.toUpperCase()}`,
+        pageSize,
+        (page - 1) * pageSize,
+      ),
+    ]);
+    ctx.response.body = successBody({ total, page, pageSize, columns: info.column_info, rows });
+  } catch (_error) {
+    ctx.response.body = errorBody("查询数据失败");
+  }
+};
+
+/**
+ * 增量导入数据集
+ * 按键列比对文件与数据集，新增文件中多出的行，更新值有变化的行，可选删除文件中不存在的行
+ * @param datasetId 数据集ID
+ * @param id 上传ID
+ * @param url 数据目录下的文件路径
+ * @param keys 键列，多个用英文逗号分隔，可以是数据表列名或文件表头
+ * @param deleteMissing 是否删除文件中不存在的行，默认 false
+ * @param fileName 文件名称，不传时使用上传文件名或文件地址中的文件名
+ * @param format、encoding、sheet、headerRow、range、raw、fillMerged 文件读取配置，同 readFile
+ * @param mapping JSON 格式的列映射规则
+ * @param mappingPreset 映射预设名称
+ * @param schema 列校验规则，存在映射规则时校验映射后的目标列，存在无效行时不导入
+ * @param skipInvalid 是否跳过无效行，为 true 时只导入有效行
+ */
+export const reimportDatasetFile = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof reimportDatasetFileQuery }>,
+) => {
+  const keys = query.keys.split(",").map((key) => key.trim()).filter(Boolean);
+  if (keys.length === 0) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody("缺少keys参数", null, 400);
+    return
+  }
+  const url = await resolveFilePath(ctx, query);
+  if (!url) {
+    return
+  }
+  const options = getReadOptions(query);
+  let mapping, schema;
+  try {
+    mapping = await getMapping(query);
+    schema = getSchema(query);
+  } catch (error) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody(error instanceof Error ? error.message : String(error), null, 400);
+    return
+  }
+  const fileName = await getFileName(query, url);
+
+  let rows;
+  try {
+    rows = await readFileRows(url, options);
+  } catch (error) {
+    ctx.response.body = errorBody(error instanceof Error ? `读取文件失败: ${error.message}` : "读取文件失败");
+    return
+  }
+
+  let invalid;
+  if (mapping || schema) {
+    const result = prepareRows(rows, { mapping, schema });
+    if (result.invalid.length > 0 && !query.skipInvalid) {
+      ctx.response.body = errorBody(`数据校验失败，共 ${result.invalid.length} 行无效`, { invalid: result.invalid });
+      return
+    }
+    rows = result.valid;
+    invalid = result.invalid;
+  }
+
+  try {
+    const res = await reimportDataset(query.datasetId, fileName, rows, {
+      keys,
+      deleteMissing: query.deleteMissing,
+    });
+    ctx.response.body = successBody(invalid ? { ...res, invalid } : res);
+  } catch (error) {
+    ctx.response.body = errorBody(`导入数据失败: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * 查询数据集导入版本列表
+ * @param datasetId 数据集ID
+ */
+export const getDatasetRevisions = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof getDatasetRevisionsQuery }>,
+) => {
+  try {
+    await ensureDataInfoTable();
+    const list = await mysql.findAll<DataRevision>(
+      DATA_REVISION_TABLE,
+      { dataset_id: query.datasetId },
+      undefined,
+      "revision DESC",
+    );
+    ctx.response.body = successBody(list.map((item) => ({
+      ...item,
+      // JSON 列可能已被驱动解析为对象
+      key_columns: typeof item.key_columns === "string" ? JSON.parse(item.key_columns) : item.key_columns,
+    })));
+  } catch (_error) {
+    ctx.response.body = errorBody("查询导入版本失败");
+  }
+};
@@ -0,0 +1,328 @@
+/**
+ * 列映射工具
+ * 按映射规则将文件表头映射为目标列，并对单元格依次执行转换，生成用于入库的行数据
+ *
+ * @example
+ * ```ts
+ * const spec = parseMapping({
+ *   columns: [
+ *     { source: "姓名", target: "name", transforms: [{ type: "trim" }] },
+ *     { source: "入职日期", target: "hire_date", transforms: [{ type: "date", format: "DD/MM/YYYY" }] },
+ *     { source: "金额", target: "amount", transforms: [{ type: "number" }, { type: "default", value: 0 }] },
+ *     { source: "性别", target: "gender", transforms: [{ type: "lookup", values: { "男": "M", "女": "F" } }] },
+ *     { target: "region", template: "{省份}-{城市}" },
+ *   ],
+ * });
+ * const { valid, invalid } = applyMapping(rows, spec);
+ * ```
+ */
+import moment from "moment";
+import type { RowData } from "../read/parser.ts";
+import { isEmptyValue } from "./schema.ts";
+import type { CellError, InvalidRow, ValidationResult } from "./validator.ts";
+
+/** 去除首尾空白 */
+export interface TrimTransform {
+  type: "trim";
+}
+
+/** 大小写转换 */
+export interface CaseTransform {
+  type: "case";
+  /** 转换方式 */
+  to: "upper" | "lower";
+}
+
+/** 按格式解析日期 */
+export interface DateTransform {
+  type: "date";
+  /** 源数据的日期格式（moment 格式），可以传多个 */
+  format: string | string[];
+  /** 输出格式（moment 格式），默认 YYYY-MM-DD */
+  output?: string;
+}
+
+/** 解析数字 */
+export interface NumberTransform {
+  type: "number";
+  /** 千分位分隔符，默认 , */
+  thousands?: string;
+  /** 小数点，默认 . */
+  decimal?: string;
+}
+
+/** 查表替换 */
+export interface LookupTransform {
+  type: "lookup";
+  /** 查找表，键为源值 */
+  values: Record<string, unknown>;
+  /** 未找到时的处理方式：keep 保留原值，null 置空，error 报错，默认 keep */
+  fallback?: "keep" | "null" | "error";
+}
+
+/** 正则替换 */
+export interface ReplaceTransform {
+  type: "replace";
+  /** 正则表达式 */
+  pattern: string;
+  /** 替换内容，支持 $1 等分组引用 */
+  replacement: string;
+  /** 正则标志，默认 g */
+  flags?: string;
+}
+
+/** 空值时使用默认值 */
+export interface DefaultTransform {
+  type: "default";
+  /** 默认值 */
+  value: unknown;
+}
+
+/** 转换规则 */
+export type Transform =
+  | TrimTransform
+  | CaseTransform
+  | DateTransform
+  | NumberTransform
+  | LookupTransform
+  | ReplaceTransform
+  | DefaultTransform;
+
+/**
+ * 列映射规则接口
+ * source 和 template 必须二选一
+ */
+export interface ColumnMapping {
+  /** 目标列名 */
+  target: string;
+  /** 源表头 */
+  source?: string;
+  /** 计算列模板，使用 {列名} 引用源表头或前面已映射的目标列，如 {省份}-{城市} */
+  template?: string;
+  /** 转换规则，按顺序执行 */
+  transforms?: Transform[];
+}
+
+/**
+ * 映射规则接口
+ */
+export interface MappingSpec {
+  /** 列映射规则，按顺序执行 */
+  columns: ColumnMapping[];
+  /** 是否保留未映射的源列，默认 false */
+  keepUnmapped?: boolean;
+}
+
+const TRANSFORM_TYPES: Transform["type"][] = ["trim", "case", "date", "number", "lookup", "replace", "default"];
+const TEMPLATE_REG = /\{([^{}]+)\}/g;
+
+/**
+ * 校验单条转换规则
+ * @param {Record<string, unknown>} rule 转换规则
+ * @param {string} target 目标列名，用于错误信息
+ * @throws {Error} 当规则格式错误时抛出错误
+ */
+const checkTransform = (rule: Record<string, unknown>, target: string): void => {
+  const type = rule.type as Transform["type"];
+  if (!TRANSFORM_TYPES.includes(type)) {
+    throw new Error(`列 ${target} 的转换类型 ${String(rule.type)} 不支持，支持 ${TRANSFORM_TYPES.join("、")}`);
+  }
+  switch (type) {
+    case "case":
+      if (rule.to !== "upper" && rule.to !== "lower") {
+        throw new Error(`列 ${target} 的 case 转换 to 只支持 upper、lower`);
+      }
+      break;
+    case "date": {
+      const formats = Array.isArray(rule.format) ? rule.format : [rule.format];
+      if (formats.length === 0 || formats.some((format) => typeof format !== "string" || !format)) {
+        throw new Error(`列 ${target} 的 date 转换缺少 format`);
+      }
+      break;
+    }
+    case "lookup":
+      if (!rule.values || typeof rule.values !== "object" || Array.isArray(rule.values)) {
+        throw new Error(`列 ${target} 的 lookup 转换 values 必须为对象`);
+      }
+      if (rule.fallback !== undefined && !["keep", "null", "error"].includes(rule.fallback as string)) {
+        throw new Error(`列 ${target} 的 lookup 转换 fallback 只支持 keep、null、error`);
+      }
+      break;
+    case "replace":
+      if (typeof rule.pattern !== "string" || typeof rule.replacement !== "string") {
+        throw new Error(`列 ${target} 的 replace 转换缺少 pattern 或 replacement`);
+      }
+      try {
+        new RegExp(rule.pattern, (rule.flags as string | undefined) ?? "g");
+      } catch (_error) {
+        throw new Error(`列 ${target} 的正则表达式错误`);
+      }
+      break;
+    case "default":
+      if (!("value" in rule)) {
+        throw new Error(`列 ${target} 的 default 转换缺少 value`);
+      }
+      break;
+  }
+};
+
+/**
+ * 解析并校验映射规则
+ * @param {unknown} input 映射规则，可以是 JSON 字符串或对象
+ * @returns {MappingSpec} 映射规则
+ * @throws {Error} 当规则格式错误时抛出错误
+ */
+export const parseMapping = (input: unknown): MappingSpec => {
+  let value = input;
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(input);
+    } catch (_error) {
+      throw new Error("映射规则必须为JSON对象");
+    }
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("映射规则必须为JSON对象");
+  }
+  const spec = value as Record<string, unknown>;
+  if (!Array.isArray(spec.columns) || spec.columns.length === 0) {
+    throw new Error("映射规则的columns不能为空");
+  }
+
+  const targets = new Set<string>();
+  const columns = spec.columns.map((column, index) => {
+    if (!column || typeof column !== "object" || typeof column.target !== "string" || !column.target.trim()) {
+      throw new Error(`第${index + 1}条映射规则缺少target`);
+    }
+    const target = column.target.trim();
+    if (targets.has(target)) {
+      throw new Error(`目标列 ${target} 重复`);
+    }
+    targets.add(target);
+    const hasSource = typeof column.source === "string" && column.source !== "";
+    const hasTemplate = typeof column.template === "string" && column.template !== "";
+    if (hasSource === hasTemplate) {
+      throw new Error(`列 ${target} 必须且只能指定 source 或 template 之一`);
+    }
+    const transforms = column.transforms ?? [];
+    if (!Array.isArray(transforms)) {
+      throw new Error(`列 ${target} 的transforms必须为数组`);
+    }
+    for (const rule of transforms) {
+      if (!rule || typeof rule !== "object") {
+        throw new Error(`列 ${target} 的转换规则格式错误`);
+      }
+      checkTransform(rule, target);
+    }
+    return { ...column, target, transforms } as ColumnMapping;
+  });
+
+  return { columns, keepUnmapped: spec.keepUnmapped === true };
+};
+
+/**
+ * 执行单条转换
+ * @param {unknown} value 当前值
+ * @param {Transform} rule 转换规则
+ * @returns {unknown} 转换后的值
+ * @throws {Error} 当值无法转换时抛出错误，错误信息用于单元格错误
+ */
+const applyTransform = (value: unknown, rule: Transform): unknown => {
+  if (rule.type === "default") {
+    return isEmptyValue(value) ? rule.value : value;
+  }
+  // 其余转换不处理空值，空值可以通过 default 转换补齐
+  if (isEmptyValue(value)) {
+    return value;
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+
+  switch (rule.type) {
+    case "trim":
+      return typeof value === "string" ? value.trim() : value;
+    case "case":
+      return rule.to === "upper" ? text.toUpperCase() : text.toLowerCase();
+    case "date": {
+      const date = value instanceof Date ? moment(value) : moment(text.trim(), rule.format, true);
+      if (!date.isValid()) {
+        throw new Error(`无法按格式 ${[rule.format].flat().join(" 或 ")} 解析为日期`);
+      }
+      return date.format(rule.output ?? "YYYY-MM-DD");
+    }
+    case "number": {
+      if (typeof value === "number") {
+        return value;
+      }
+      const thousands = rule.thousands ?? ",";
+      const decimal = rule.decimal ?? ".";
+      const normalized = text.replace(/\s/g, "").split(thousands).join("").split(decimal).join(".");
+      const number = normalized === "" ? NaN : Number(normalized);
+      if (!Number.isFinite(number)) {
+        throw new Error("无法解析为数字");
+      }
+      return number;
+    }
+    case "lookup": {
+      if (Object.hasOwn(rule.values, text)) {
+        return rule.values[text];
+      }
+      if (rule.fallback === "error") {
+        throw new Error("值不在查找表中");
+      }
+      return rule.fallback === "null" ? null : value;
+    }
+    case "replace":
+      return text.replace(new RegExp(rule.pattern, rule.flags ?? "g"), rule.replacement);
+  }
+};
+
+/**
+ * 按映射规则转换行数据
+ * 单元格转换失败的行作为无效行返回，行号为原始行号（从1开始，不含表头）
+ * @param {RowData[]} rows 行数据
+ * @param {MappingSpec} spec 映射规则
+ * @returns {ValidationResult} 转换结果，valid 为转换后的行数据
+ */
+export const applyMapping = (rows: RowData[], spec: MappingSpec): ValidationResult => {
+  const valid: RowData[] = [];
+  const invalid: InvalidRow[] = [];
+  const sources = new Set(spec.columns.map((column) => column.source).filter(Boolean));
+
+  rows.forEach((data, index) => {
+    const result: RowData = {};
+    const errors: CellError[] = [];
+
+    for (const column of spec.columns) {
+      let value: unknown = column.source !== undefined
+        ? data[column.source]
+        : column.template!.replace(TEMPLATE_REG, (_match, name: string) => {
+          const ref = name in result ? result[name] : data[name];
+          return isEmptyValue(ref) ? "" : String(ref);
+        });
+      try {
+        for (const rule of column.transforms ?? []) {
+          value = applyTransform(value, rule);
+        }
+        result[column.target] = value ?? null;
+      } catch (error) {
+        errors.push({ column: column.target, value: value ?? null, message: (error as Error).message });
+      }
+    }
+
+    if (spec.keepUnmapped) {
+      for (const [key, value] of Object.entries(data)) {
+        if (!sources.has(key) && !(key in result)) {
+          result[key] = value;
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      invalid.push({ row: index + 1, data, errors });
+    } else {
+      valid.push(result);
+    }
+  });
+
+  return { valid, invalid };
+};
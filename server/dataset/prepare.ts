@@ -0,0 +1,48 @@
+/**
+ * 导入数据预处理
+ * 依次执行列映射和数据校验，供导入接口、增量导入接口和后台导入任务共用
+ */
+import type { RowData } from "../read/parser.ts";
+import { applyMapping, type MappingSpec } from "./mapping.ts";
+import { type ColumnRule, type InvalidRow, validateRows, type ValidationResult } from "./validator.ts";
+
+/**
+ * 预处理配置接口
+ */
+export interface PrepareOptions {
+  /** 列映射规则 */
+  mapping?: MappingSpec;
+  /** 列校验规则，存在映射规则时校验映射后的目标列 */
+  schema?: ColumnRule[];
+}
+
+/**
+ * 预处理行数据
+ * 映射失败和校验失败的行都作为无效行返回，行号统一为文件中的原始行号
+ * @param {RowData[]} rows 行数据
+ * @param {PrepareOptions} options 预处理配置
+ * @returns {ValidationResult} 预处理结果，valid 为可入库的行数据
+ */
+export const prepareRows = (rows: RowData[], options: PrepareOptions): ValidationResult => {
+  let valid = rows;
+  const invalid: InvalidRow[] = [];
+  // 有效行对应的原始行号
+  let origins = rows.map((_row, index) => index + 1);
+
+  if (options.mapping) {
+    const mapped = applyMapping(rows, options.mapping);
+    const failed = new Set(mapped.invalid.map((item) => item.row));
+    valid = mapped.valid;
+    invalid.push(...mapped.invalid);
+    origins = origins.filter((row) => !failed.has(row));
+  }
+
+  if (options.schema) {
+    const validated = validateRows(valid, options.schema);
+    valid = validated.valid;
+    invalid.push(...validated.invalid.map((item) => ({ ...item, row: origins[item.row - 1] })));
+    invalid.sort((a, b) => a.row - b.row);
+  }
+
+  return { valid, invalid };
+};
@@ -0,0 +1,339 @@
+/**
+ * 数据集列结构推断工具
+ * 根据解析后的行数据推断列名和 MySQL 字段类型，并将行数据转换为可入库的格式
+ */
+import moment from "moment";
+import type { RowData } from "../read/parser.ts";
+import { escapeId } from "../utils/mysql.ts";
+
+/** 列类型 */
+export type ColumnType = "int" | "bigint" | "decimal" | "date" | "datetime" | "varchar" | "text";
+
+/**
+ * 列信息接口
+ */
+export interface ColumnInfo {
+  /** 数据表列名 */
+  name: string;
+  /** 文件中的原始表头 */
+  source: string;
+  /** 列类型 */
+  type: ColumnType;
+  /** MySQL 字段类型定义 */
+  sqlType: string;
+}
+
+/**
+ * 列概况接口，用于导入预览
+ */
+export interface ColumnProfile extends ColumnInfo {
+  /** 是否存在空值 */
+  nullable: boolean;
+  /** 不同值的数量 */
+  distinctCount: number;
+  /** 示例值 */
+  samples: unknown[];
+  /** 建议的 MySQL 列定义 */
+  definition: string;
+}
+
+/** 数据表保留列名，由系统自动生成 */
+export const RESERVED_COLUMNS = ["id"];
+
+/** 日期格式 */
+export const DATE_FORMATS = ["YYYY-MM-DD", "YYYY/M/D", "YYYY-M-D", "YYYY.M.D"];
+/** 日期时间格式 */
+export const DATETIME_FORMATS = [
+  "YYYY-MM-DD HH:mm:ss",
+  "YYYY-MM-DD HH:mm",
+  "YYYY/M/D HH:mm:ss",
+  "YYYY/M/D H:mm:ss",
+  "YYYY/M/D HH:mm",
+  "YYYY/M/D H:mm",
+  "YYYY-MM-DDTHH:mm:ss",
+  moment.ISO_8601,
+];
+
+const INT_REG = /^[-+]?(0|[1-9]\d*)$/;
+const DECIMAL_REG = /^[-+]?(0|[1-9]\d*)\.\d+$/;
+/** INT 和 BIGINT 的取值范围 */
+const INT_RANGE = [-2147483648n, 2147483647n];
+const BIGINT_RANGE = [-9223372036854775808n, 9223372036854775807n];
+/** DECIMAL 的最大位数 */
+const DECIMAL_MAX_DIGITS = 65;
+/** 字符串列 VARCHAR 的长度，超过时使用 TEXT */
+export const VARCHAR_LENGTH = 255;
+/** TEXT 的最大字节数，超过时使用 MEDIUMTEXT */
+const TEXT_MAX_BYTES = 65535;
+/** MySQL 单行的最大字节数，TEXT 列只计入指针长度 */
+const ROW_SIZE_LIMIT = 65535;
+/** DECIMAL 不足 9 位的部分占用的字节数，按位数索引 */
+const DECIMAL_LEFTOVER_BYTES = [0, 1, 1, 2, 2, 3, 3, 4, 4, 4];
+
+const encoder = new TextEncoder();
+
+/**
+ * 判断值是否为空
+ * @param {unknown} value 值
+ * @returns {boolean} 是否为空
+ */
+export const isEmptyValue = (value: unknown): boolean => {
+  return value === null || value === undefined || String(value).trim() === "";
+};
+
+/**
+ * 规范化列名
+ * 去除首尾空格和反引号，空白字符替换为下划线，长度限制为 64
+ * @param {string} header 原始表头
+ * @param {number} index 列序号
+ * @returns {string} 列名
+ */
+const normalizeColumnName = (header: string, index: number): string => {
+  const name = header.trim().replace(/`/g, "").replace(/\s+/g, "_").slice(0, 64);
+  return name || `column_${index + 1}`;
+};
+
+/**
+ * 根据最大长度推断字符串列的类型
+ * @param {string[]} texts 列的所有非空值
+ * @returns {{ type: ColumnType; sqlType: string }} 列类型和 MySQL 字段类型定义
+ */
+const inferTextType = (texts: string[]): { type: ColumnType; sqlType: string } => {
+  const maxLength = texts.reduce((max, text) => Math.max(max, [...text].length), 0);
+  if (maxLength <= VARCHAR_LENGTH) {
+    return { type: "varchar", sqlType: `VARCHAR(${VARCHAR_LENGTH})` };
+  }
+  const maxBytes = texts.reduce((max, text) => Math.max(max, encoder.encode(text).length), 0);
+  return { type: "text", sqlType: maxBytes > TEXT_MAX_BYTES ? "MEDIUMTEXT" : "TEXT" };
+};
+
+/**
+ * 推断单列的类型
+ * @param {unknown[]} values 列的所有值
+ * @returns {{ type: ColumnType; sqlType: string }} 列类型和 MySQL 字段类型定义
+ */
+export const inferColumnType = (values: unknown[]): { type: ColumnType; sqlType: string } => {
+  const list = values.filter((value) => !isEmptyValue(value));
+  if (list.length === 0) {
+    return inferTextType([]);
+  }
+
+  const texts = list.map((value) => value instanceof Date ? "" : String(value).trim());
+
+  // 整数，使用原始文本比较大小，避免超过 Number 精度的整数比较错误
+  if (list.every((value, i) => !(value instanceof Date) && INT_REG.test(texts[i]))) {
+    const maxDigits = Math.max(...texts.map((text) => text.replace(/^[-+]/, "").length));
+    if (maxDigits > DECIMAL_MAX_DIGITS) {
+      return inferTextType(texts);
+    }
+    const numbers = texts.map((text) => BigInt(text));
+    const inRange = ([min, max]: bigint[]) => numbers.every((number) => number >= min && number <= max);
+    if (inRange(INT_RANGE)) {
+      return { type: "int", sqlType: "INT" };
+    }
+    if (inRange(BIGINT_RANGE)) {
+      return { type: "bigint", sqlType: "BIGINT" };
+    }
+    return { type: "decimal", sqlType: `DECIMAL(${maxDigits},0)` };
+  }
+
+  // 小数
+  if (list.every((value, i) => !(value instanceof Date) && (INT_REG.test(texts[i]) || DECIMAL_REG.test(texts[i])))) {
+    let intDigits = 1;
+    let scale = 0;
+    for (const text of texts) {
+      const [intPart, decPart = ""] = text.replace(/^[-+]/, "").split(".");
+      intDigits = Math.max(intDigits, intPart.length);
+      scale = Math.max(scale, decPart.length);
+    }
+    scale = Math.min(scale, 30);
+    if (intDigits + scale > DECIMAL_MAX_DIGITS) {
+      return { type: "decimal", sqlType: "DOUBLE" };
+    }
+    return { type: "decimal", sqlType: `DECIMAL(${intDigits + scale},${scale})` };
+  }
+
+  // 日期、日期时间
+  if (list.every((value, i) => !(value instanceof Date) && moment(texts[i], DATE_FORMATS, true).isValid())) {
+    return { type: "date", sqlType: "DATE" };
+  }
+  if (list.every((value, i) => value instanceof Date || moment(texts[i], [...DATE_FORMATS, ...DATETIME_FORMATS], true).isValid())) {
+    return { type: "datetime", sqlType: "DATETIME" };
+  }
+
+  // 字符串
+  return inferTextType(texts);
+};
+
+/**
+ * 估算列在行中占用的最大字节数
+ * VARCHAR 按 utf8mb4 每个字符 4 字节计算，TEXT 只计算行内指针
+ * @param {string} sqlType MySQL 字段类型定义
+ * @returns {number} 字节数
+ */
+const getColumnBytes = (sqlType: string): number => {
+  const varchar = /^VARCHAR\((\d+)\)$/.exec(sqlType);
+  if (varchar) {
+    const bytes = Number(varchar[1]) * 4;
+    return bytes + (bytes > 255 ? 2 : 1);
+  }
+  const decimal = /^DECIMAL\((\d+),(\d+)\)$/.exec(sqlType);
+  if (decimal) {
+    const digits = (count: number) => Math.floor(count / 9) * 4 + DECIMAL_LEFTOVER_BYTES[count % 9];
+    return digits(Number(decimal[1]) - Number(decimal[2])) + digits(Number(decimal[2]));
+  }
+  const sizes: Record<string, number> = { INT: 4, BIGINT: 8, DOUBLE: 8, DATE: 3, DATETIME: 5, TEXT: 12, MEDIUMTEXT: 12 };
+  return sizes[sqlType] ?? 12;
+};
+
+/**
+ * 限制数据表的行大小
+ * 列较多时所有 VARCHAR 列的总长度可能超过 MySQL 的单行上限，此时从最后一列开始将 VARCHAR 列改为 TEXT，
+ * 直到总长度不超过上限，靠前的列保持 VARCHAR 以便建立索引
+ * @param {ColumnInfo[]} columns 列信息
+ * @returns {ColumnInfo[]} 调整后的列信息
+ */
+const fitRowSize = (columns: ColumnInfo[]): ColumnInfo[] => {
+  const result = [...columns];
+  // 自增主键 BIGINT 和 NULL 标志位
+  let total = 8 + Math.ceil((columns.length + 1) / 8);
+  total += result.reduce((sum, column) => sum + getColumnBytes(column.sqlType), 0);
+  for (let i = result.length - 1; i >= 0 && total > ROW_SIZE_LIMIT; i--) {
+    if (result[i].type === "varchar") {
+      total += getColumnBytes("TEXT") - getColumnBytes(result[i].sqlType);
+      result[i] = { ...result[i], type: "text", sqlType: "TEXT" };
+    }
+  }
+  return result;
+};
+
+/**
+ * 判断值是否超出列的长度限制
+ * VARCHAR 按字符数判断，TEXT 按 utf8mb4 编码后的字节数判断
+ * @param {string} value 入库值
+ * @param {ColumnInfo} column 列信息
+ * @returns {string | null} 错误信息，未超出时返回 null
+ */
+export const checkColumnLength = (value: string, column: ColumnInfo): string | null => {
+  const varchar = /^VARCHAR\((\d+)\)$/.exec(column.sqlType);
+  if (varchar) {
+    return [...value].length > Number(varchar[1]) ? `长度超过 ${varchar[1]} 个字符` : null;
+  }
+  if (column.sqlType === "TEXT" && encoder.encode(value).length > TEXT_MAX_BYTES) {
+    return `长度超过 ${TEXT_MAX_BYTES} 字节`;
+  }
+  return null;
+};
+
+/**
+ * 推断所有列的信息
+ * 列的总长度超过 MySQL 单行上限时，靠后的 VARCHAR 列改为 TEXT
+ * @param {RowData[]} rows 行数据
+ * @returns {ColumnInfo[]} 列信息
+ */
+export const inferColumns = (rows: RowData[]): ColumnInfo[] => {
+  // 收集所有表头，部分行可能缺少某些列
+  const headers: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!headers.includes(key)) {
+        headers.push(key);
+      }
+    }
+  }
+
+  const used = new Set(RESERVED_COLUMNS);
+  const columns = headers.map((header, index) => {
+    // 列名去重，MySQL 列名不区分大小写
+    const base = normalizeColumnName(header, index);
+    let name = base;
+    let suffix = 2;
+    while (used.has(name.toLowerCase())) {
+      name = `${base.slice(0, 60)}_${suffix++}`;
+    }
+    used.add(name.toLowerCase());
+
+    return {
+      name,
+      source: header,
+      ...inferColumnType(rows.map((row) => row[header])),
+    };
+  });
+  return fitRowSize(columns);
+};
+
+/**
+ * 推断所有列的概况
+ * 在列类型推断的基础上统计空值、不同值数量和示例值
+ * @param {RowData[]} rows 行数据
+ * @param {number} [sampleCount=5] 每列返回的示例值数量
+ * @returns {ColumnProfile[]} 列概况
+ */
+export const profileColumns = (rows: RowData[], sampleCount = 5): ColumnProfile[] => {
+  return inferColumns(rows).map((column) => {
+    let nullable = false;
+    const distinct = new Set<string>();
+    const samples: unknown[] = [];
+    for (const row of rows) {
+      const value = row[column.source];
+      if (isEmptyValue(value)) {
+        nullable = true;
+        continue;
+      }
+      const key = value instanceof Date ? value.toISOString() : String(value);
+      if (!distinct.has(key) && samples.length < sampleCount) {
+        samples.push(value);
+      }
+      distinct.add(key);
+    }
+    return {
+      ...column,
+      nullable,
+      distinctCount: distinct.size,
+      samples,
+      definition: `${escapeId(column.name)} ${column.sqlType} ${nullable ? "NULL" : "NOT NULL"}`,
+    };
+  });
+};
+
+/**
+ * 转换单个值为入库格式
+ * @param {unknown} value 原始值
+ * @param {ColumnType} type 列类型
+ * @returns {unknown} 转换后的值
+ */
+export const convertValue = (value: unknown, type: ColumnType): unknown => {
+  if (isEmptyValue(value)) {
+    return null;
+  }
+  switch (type) {
+    case "int":
+    case "bigint":
+    case "decimal":
+      return String(value).trim();
+    case "date":
+      return moment(String(value).trim(), DATE_FORMATS, true).format("YYYY-MM-DD");
+    case "datetime": {
+      if (value instanceof Date) {
+        return moment(value).format("YYYY-MM-DD HH:mm:ss");
+      }
+      return moment(String(value).trim(), [...DATE_FORMATS, ...DATETIME_FORMATS], true).format("YYYY-MM-DD HH:mm:ss");
+    }
+    default:
+      return value instanceof Date ? value.toISOString() : String(value);
+  }
+};
+
+/**
+ * 将行数据转换为数据表记录
+ * @param {RowData} row 行数据
+ * @param {ColumnInfo[]} columns 列信息
+ * @returns {Record<string, unknown>} 数据表记录
+ */
+export const convertRow = (row: RowData, columns: ColumnInfo[]): Record<string, unknown> => {
+  const record: Record<string, unknown> = {};
+  for (const column of columns) {
+    record[column.name] = convertValue(row[column.source], column.type);
+  }
+  return record;
+};
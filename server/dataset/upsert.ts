@@ -0,0 +1,387 @@
+/**
+ * 数据集增量导入工具
+ * 按键列将新文件与已有数据表比对，新增、修改或删除行使数据表与文件一致，并记录导入版本
+ *
+ * @example
+ * ```ts
+ * const rows = await readFileRows("./data_v2.csv");
+ * const result = await reimportDataset(1, "data_v2.csv", rows, { keys: ["编号"], deleteMissing: true });
+ * ```
+ */
+import moment from "moment";
+import { escapeId, mysql, type PoolConnection } from "../utils/mysql.ts";
+import { logger } from "../utils/logger.ts";
+import type { RowData } from "../read/parser.ts";
+import { DATA_INFO_TABLE, DATA_REVISION_TABLE, getDataInfo, importRows, insertRows } from "./importer.ts";
+import { checkColumnLength, type ColumnInfo, convertValue, isEmptyValue } from "./schema.ts";
+
+/** 变更摘要中每类示例行的最大数量 */
+const SAMPLE_SIZE = 20;
+/** 单条删除语句的最大行数 */
+const DELETE_BATCH_SIZE = 1000;
+/** 单条更新语句的最大行数 */
+const UPDATE_BATCH_SIZE = 500;
+/** 单条 SQL 的最大参数个数，MySQL 预处理语句限制为 65535 */
+const MAX_PARAMS = 60000;
+
+/**
+ * 增量导入配置接口
+ */
+export interface ReimportOptions {
+  /** 键列，可以是数据表列名或文件中的原始表头 */
+  keys: string[];
+  /** 是否删除文件中不存在的行 */
+  deleteMissing?: boolean;
+}
+
+/**
+ * 修改行示例接口
+ */
+export interface ChangedRow {
+  /** 键列的值 */
+  key: Record<string, unknown>;
+  /** 修改前的值，只包含发生变化的列 */
+  before: Record<string, unknown>;
+  /** 修改后的值，只包含发生变化的列 */
+  after: Record<string, unknown>;
+}
+
+/**
+ * 增量导入结果接口
+ */
+export interface ReimportResult {
+  /** 数据集ID */
+  id: number;
+  /** 版本号 */
+  revision: number;
+  /** 新增行数 */
+  added: number;
+  /** 修改行数 */
+  changed: number;
+  /** 删除行数 */
+  removed: number;
+  /** 未变化行数 */
+  unchanged: number;
+  /** 导入后的数据行数 */
+  rowCount: number;
+  /** 文件中不属于数据集的列，这些列不会被导入 */
+  ignoredColumns: string[];
+  /** 变更示例 */
+  samples: {
+    added: Record<string, unknown>[];
+    changed: ChangedRow[];
+    removed: Record<string, unknown>[];
+  };
+}
+
+/** 十进制数字格式：符号、整数部分、小数部分 */
+const DECIMAL_REG = /^([+-]?)(\d*)(?:\.(\d*))?$/;
+
+/**
+ * 将数字规范化为字符串
+ * 按十进制文本比较，不经过 Number 转换，去除正号、整数部分的前导零和小数部分的末尾零
+ * @param {unknown} value 数字或数字字符串
+ * @returns {string} 规范化后的字符串，如 007 和 7.00 都为 7
+ */
+const canonicalNumber = (value: unknown): string => {
+  const text = String(value).trim();
+  const match = DECIMAL_REG.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    // 科学计数法等其他格式
+    return String(Number(text));
+  }
+  const integer = match[2].replace(/^0+/, "") || "0";
+  const fraction = (match[3] ?? "").replace(/0+$/, "");
+  const digits = fraction ? `${integer}.${fraction}` : integer;
+  return match[1] === "-" && digits !== "0" ? `-${digits}` : digits;
+};
+
+/**
+ * 将值规范化为可比较的格式
+ * 驱动返回的 BIGINT 和 DECIMAL 为字符串，DATE 和 DATETIME 为 Date 对象，需要与文件中转换后的值统一格式
+ * @param {unknown} value 值
+ * @param {ColumnInfo} column 列信息
+ * @returns {unknown} 规范化后的值
+ */
+const normalizeValue = (value: unknown, column: ColumnInfo): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (column.type) {
+    case "int":
+    case "bigint":
+    case "decimal":
+      return canonicalNumber(value);
+    case "date":
+      return moment(value as string | Date).format("YYYY-MM-DD");
+    case "datetime":
+      return moment(value as string | Date).format("YYYY-MM-DD HH:mm:ss");
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * 转换文件中的值并校验是否符合数据集列类型
+ * @param {unknown} value 原始值
+ * @param {ColumnInfo} column 列信息
+ * @param {number} row 行号，用于错误信息
+ * @returns {unknown} 入库值
+ * @throws {Error} 当值与列类型不匹配或超出列的长度限制时抛出错误
+ */
+const convertCell = (value: unknown, column: ColumnInfo, row: number): unknown => {
+  const result = convertValue(value, column.type);
+  if (result === null) {
+    return null;
+  }
+  const isNumber = ["int", "bigint", "decimal"].includes(column.type);
+  const isValid = isNumber
+    ? Number.isFinite(Number(result)) && (column.type === "decimal" || Number.isInteger(Number(result)))
+    : result !== "Invalid date";
+  if (!isValid) {
+    throw new Error(`第${row}行列 ${column.source} 的值 ${String(value)} 与数据集列类型 ${column.type} 不匹配`);
+  }
+  const lengthError = typeof result === "string" ? checkColumnLength(result, column) : null;
+  if (lengthError) {
+    throw new Error(`第${row}行列 ${column.source} 的值${lengthError}`);
+  }
+  return result;
+};
+
+/**
+ * 选取记录中的部分列并规范化
+ * @param {Record<string, unknown>} record 记录
+ * @param {ColumnInfo[]} columns 列信息
+ * @returns {Record<string, unknown>} 只包含指定列的记录
+ */
+const pick = (record: Record<string, unknown>, columns: ColumnInfo[]): Record<string, unknown> => {
+  return Object.fromEntries(columns.map((column) => [column.name, normalizeValue(record[column.name], column)]));
+};
+
+/**
+ * 批量更新修改的行
+ * 每批使用一条 UPDATE 语句，每列按 CASE id 设置新值，该列未变化的行保持原值
+ * @param {PoolConnection} conn 事务连接
+ * @param {string} table 已转义的表名
+ * @param {Array<{ id: number | string; data: Record<string, unknown> }>} items 修改的行，data 只包含发生变化的列
+ * @param {ColumnInfo[]} columns 可能修改的列
+ */
+const updateRows = async (
+  conn: PoolConnection,
+  table: string,
+  items: Array<{ id: number | string; data: Record<string, unknown> }>,
+  columns: ColumnInfo[],
+): Promise<void> => {
+  const size = Math.max(1, Math.min(UPDATE_BATCH_SIZE, Math.floor(MAX_PARAMS / (columns.length * 2 + 1))));
+  for (let i = 0; i < items.length; i += size) {
+    const batch = items.slice(i, i + size);
+    const assignments: string[] = [];
+    const params: unknown[] = [];
+    for (const column of columns) {
+      const list = batch.filter((item) => column.name in item.data);
+      if (list.length === 0) {
+        continue;
+      }
+      const name = escapeId(column.name);
+      assignments.push(`${name} = CASE id ${list.map(() => "WHEN ? THEN ?").join(" ")} ELSE ${name} END`);
+      list.forEach((item) => params.push(item.id, item.data[column.name]));
+    }
+    params.push(...batch.map((item) => item.id));
+    await mysql.execute(
+      `UPDATE ${table} SET ${assignments.join(", ")} WHERE id IN (${batch.map(() => "?").join(", ")})`,
+      params,
+      conn,
+    );
+  }
+};
+
+/**
+ * 增量导入数据集
+ * 只比对和更新文件中存在的列，新增行中文件缺少的列为 NULL
+ * 比对和写入在锁定 set_data_info 行的事务中执行，同一数据集同时导入时后者等待前者完成
+ * @param {number} datasetId 数据集ID
+ * @param {string} fileName 文件名称
+ * @param {RowData[]} rows 行数据
+ * @param {ReimportOptions} options 增量导入配置
+ * @returns {Promise<ReimportResult>} 变更摘要
+ * @throws {Error} 当数据集不存在、键列无效、键值为空或重复、值与列类型不匹配或导入失败时抛出错误
+ */
+export const reimportDataset = async (
+  datasetId: number,
+  fileName: string,
+  rows: RowData[],
+  options: ReimportOptions,
+): Promise<ReimportResult> => {
+  if (rows.length === 0) {
+    throw new Error("文件没有可导入的数据");
+  }
+  if (options.keys.length === 0) {
+    throw new Error("键列不能为空");
+  }
+  const info = await getDataInfo(datasetId);
+  if (!info) {
+    throw new Error("数据集不存在");
+  }
+
+  // 文件表头与数据集列对应，优先按原始表头匹配，其次按列名匹配
+  const headers = new Set(rows.flatMap((row) => Object.keys(row)));
+  const columns: ColumnInfo[] = [];
+  for (const column of info.column_info) {
+    const source = headers.has(column.source) ? column.source : headers.has(column.name) ? column.name : null;
+    if (source !== null) {
+      columns.push({ ...column, source });
+    }
+  }
+  const matched = new Set(columns.map((column) => column.source));
+  const ignoredColumns = [...headers].filter((header) => !matched.has(header));
+
+  const keyColumns = options.keys.map((key) => {
+    const column = columns.find((item) => item.name === key || item.source === key);
+    if (!column) {
+      const exists = info.column_info.some((item) => item.name === key || item.source === key);
+      throw new Error(exists ? `文件中缺少键列: ${key}` : `键列不存在: ${key}`);
+    }
+    return column;
+  });
+  const valueColumns = columns.filter((column) => !keyColumns.includes(column));
+
+  // 转换文件数据并按键值索引
+  const incoming = new Map<string, Record<string, unknown>>();
+  rows.forEach((row, index) => {
+    const record: Record<string, unknown> = {};
+    for (const column of columns) {
+      record[column.name] = convertCell(row[column.source], column, index + 1);
+    }
+    if (keyColumns.some((column) => isEmptyValue(record[column.name]))) {
+      throw new Error(`第${index + 1}行键列的值不能为空`);
+    }
+    const key = JSON.stringify(keyColumns.map((column) => normalizeValue(record[column.name], column)));
+    if (incoming.has(key)) {
+      throw new Error(`第${index + 1}行键值重复: ${keyColumns.map((column) => record[column.name]).join(", ")}`);
+    }
+    incoming.set(key, record);
+  });
+
+  const table = escapeId(info.data_table);
+  const fields = ["id", ...columns.map((column) => column.name)].map(escapeId).join(", ");
+  const added: Record<string, unknown>[] = [];
+  const changed: Array<{ id: number | string; data: Record<string, unknown> }> = [];
+  const changedSamples: ChangedRow[] = [];
+  // 不删除文件中不存在的行时只计数，不记录行ID和示例
+  const removedIds: Array<number | string> = [];
+  const removedSamples: Record<string, unknown>[] = [];
+  let missing = 0;
+  const seen = new Set<string>();
+  let existingCount = 0;
+  let unchanged = 0;
+
+  // 锁定数据集信息行后再比对和写入，同一数据集的增量导入在多个实例之间也依次执行，版本号在锁内计算
+  const { revision, rowCount } = await mysql.transaction(async (conn) => {
+    await conn.query(`SELECT id FROM ${DATA_INFO_TABLE} WHERE id = ? FOR UPDATE`, [datasetId]);
+
+    // 在事务连接上逐行读取已有数据，与文件数据比对
+    const existingRows = mysql.stream<Record<string, unknown>>(`SELECT ${fields} FROM ${table}`, undefined, conn);
+    for await (const existing of existingRows) {
+      existingCount++;
+      const key = JSON.stringify(keyColumns.map((column) => normalizeValue(existing[column.name], column)));
+      const record = incoming.get(key);
+      // 文件中不存在的行，以及数据表中键值重复的多余行，视为需要删除的行
+      if (!record || seen.has(key)) {
+        missing++;
+        if (options.deleteMissing) {
+          removedIds.push(existing.id as number | string);
+          if (removedSamples.length < SAMPLE_SIZE) {
+            removedSamples.push(pick(existing, columns));
+          }
+        }
+        continue;
+      }
+      seen.add(key);
+
+      const diff = valueColumns.filter((column) => {
+        return normalizeValue(existing[column.name], column) !== normalizeValue(record[column.name], column);
+      });
+      if (diff.length === 0) {
+        unchanged++;
+        continue;
+      }
+      changed.push({
+        id: existing.id as number | string,
+        data: Object.fromEntries(diff.map((column) => [column.name, record[column.name]])),
+      });
+      if (changedSamples.length < SAMPLE_SIZE) {
+        changedSamples.push({
+          key: pick(record, keyColumns),
+          before: pick(existing, diff),
+          after: pick(record, diff),
+        });
+      }
+    }
+    for (const [key, record] of incoming) {
+      if (!seen.has(key)) {
+        added.push(record);
+      }
+    }
+
+    if (missing > 0 && !options.deleteMissing) {
+      logger.info(`数据集中有 ${missing} 行在文件中不存在，未删除`, { id: datasetId });
+    }
+    const rowCount = existingCount + added.length - removedIds.length;
+    const [lastRevision] = await conn.query(
+      `SELECT MAX(revision) AS revision FROM ${DATA_REVISION_TABLE} WHERE dataset_id = ?`,
+      [datasetId],
+    );
+    // 早期导入的数据集没有版本记录，视为已有第1版
+    const revision = Math.max((lastRevision as Array<{ revision: number | null }>)[0]?.revision ?? 0, 1) + 1;
+
+    if (added.length > 0) {
+      await insertRows(conn, info.data_table, added, columns.map((column) => ({ ...column, source: column.name })));
+    }
+    await updateRows(conn, table, changed, valueColumns);
+    for (let i = 0; i < removedIds.length; i += DELETE_BATCH_SIZE) {
+      await mysql.delete(table, { id: { in: removedIds.slice(i, i + DELETE_BATCH_SIZE) } }, conn);
+    }
+    await mysql.update(DATA_INFO_TABLE, { row_count: rowCount }, { id: datasetId }, conn);
+    await mysql.insert(DATA_REVISION_TABLE, {
+      dataset_id: datasetId,
+      revision,
+      file_name: fileName,
+      mode: "upsert",
+      key_columns: JSON.stringify(keyColumns.map((column) => column.name)),
+      added: added.length,
+      changed: changed.length,
+      removed: removedIds.length,
+      unchanged,
+      row_count: rowCount,
+      created_at: moment().format("YYYY-MM-DD HH:mm:ss"),
+    }, conn);
+    return { revision, rowCount };
+  });
+
+  importRows.inc({ mode: "upsert", action: "added" }, added.length);
+  importRows.inc({ mode: "upsert", action: "changed" }, changed.length);
+  importRows.inc({ mode: "upsert", action: "removed" }, removedIds.length);
+  logger.info(`数据集增量导入成功: ${fileName}`, {
+    id: datasetId,
+    revision,
+    added: added.length,
+    changed: changed.length,
+    removed: removedIds.length,
+  });
+
+  return {
+    id: datasetId,
+    revision,
+    added: added.length,
+    changed: changed.length,
+    removed: removedIds.length,
+    unchanged,
+    rowCount,
+    ignoredColumns,
+    samples: {
+      added: added.slice(0, SAMPLE_SIZE),
+      changed: changedSamples,
+      removed: removedSamples,
+    },
+  };
+};
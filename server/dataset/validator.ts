@@ -0,0 +1,251 @@
+/**
+ * 数据校验工具
+ * 根据列校验规则检查行数据，将数据拆分为有效行和无效行，并给出每个单元格的错误信息
+ *
+ * @example
+ * ```ts
+ * const schema = parseSchema([
+ *   { column: "年龄", type: "int", required: true, min: 0, max: 150 },
+ *   { column: "状态", type: "enum", values: ["启用", "停用"] },
+ * ]);
+ * const { valid, invalid } = validateRows(rows, schema);
+ * ```
+ */
+import moment from "moment";
+import type { RowData } from "../read/parser.ts";
+import { DATE_FORMATS, DATETIME_FORMATS, isEmptyValue } from "./schema.ts";
+
+/** 校验类型 */
+export type RuleType = "string" | "int" | "decimal" | "date" | "enum";
+
+/**
+ * 列校验规则接口
+ */
+export interface ColumnRule {
+  /** 列名（文件中的表头） */
+  column: string;
+  /** 是否必填 */
+  required?: boolean;
+  /** 值类型，默认 string */
+  type?: RuleType;
+  /** 枚举值，type 为 enum 时必填 */
+  values?: string[];
+  /** 日期格式（moment 格式），type 为 date 时使用，默认支持常见日期格式 */
+  format?: string;
+  /** 正则表达式 */
+  pattern?: string;
+  /** 最小值：数字为数值，日期为日期，字符串为长度 */
+  min?: number | string;
+  /** 最大值：数字为数值，日期为日期，字符串为长度 */
+  max?: number | string;
+  /** 是否唯一 */
+  unique?: boolean;
+}
+
+/**
+ * 单元格错误接口
+ */
+export interface CellError {
+  /** 列名 */
+  column: string;
+  /** 单元格值 */
+  value: unknown;
+  /** 错误信息 */
+  message: string;
+}
+
+/**
+ * 无效行接口
+ */
+export interface InvalidRow {
+  /** 行号（从1开始，不含表头） */
+  row: number;
+  /** 行数据 */
+  data: RowData;
+  /** 错误列表 */
+  errors: CellError[];
+}
+
+/**
+ * 校验结果接口
+ */
+export interface ValidationResult {
+  /** 有效行 */
+  valid: RowData[];
+  /** 无效行 */
+  invalid: InvalidRow[];
+}
+
+const RULE_TYPES: RuleType[] = ["string", "int", "decimal", "date", "enum"];
+const INT_REG = /^[-+]?\d+$/;
+const DECIMAL_REG = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * 解析并校验列校验规则
+ * @param {unknown} input 规则，可以是 JSON 字符串或数组
+ * @returns {ColumnRule[]} 列校验规则
+ * @throws {Error} 当规则格式错误时抛出错误
+ */
+export const parseSchema = (input: unknown): ColumnRule[] => {
+  let value = input;
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(input);
+    } catch (_error) {
+      throw new Error("校验规则必须为JSON数组");
+    }
+  }
+  if (!Array.isArray(value)) {
+    throw new Error("校验规则必须为JSON数组");
+  }
+
+  return value.map((rule, index) => {
+    if (!rule || typeof rule !== "object" || typeof rule.column !== "string" || !rule.column) {
+      throw new Error(`第${index + 1}条校验规则缺少column`);
+    }
+    const type = rule.type ?? "string";
+    if (!RULE_TYPES.includes(type)) {
+      throw new Error(`列 ${rule.column} 的类型 ${type} 不支持`);
+    }
+    if (type === "enum" && (!Array.isArray(rule.values) || rule.values.length === 0)) {
+      throw new Error(`列 ${rule.column} 的枚举值不能为空`);
+    }
+    if (rule.pattern !== undefined) {
+      try {
+        new RegExp(rule.pattern);
+      } catch (_error) {
+        throw new Error(`列 ${rule.column} 的正则表达式错误`);
+      }
+    }
+    return { ...rule, type } as ColumnRule;
+  });
+};
+
+/**
+ * 解析日期
+ * @param {string} text 文本
+ * @param {string} [format] 日期格式
+ * @returns {moment.Moment} 日期对象，可通过 isValid 判断是否有效
+ */
+const parseDate = (text: string, format?: string): moment.Moment => {
+  return moment(text, format ?? [...DATE_FORMATS, ...DATETIME_FORMATS], true);
+};
+
+/**
+ * 校验单个值
+ * @param {unknown} value 值
+ * @param {ColumnRule} rule 校验规则
+ * @returns {string | null} 错误信息，校验通过时返回 null
+ */
+const validateValue = (value: unknown, rule: ColumnRule): string | null => {
+  const text = String(value).trim();
+
+  switch (rule.type) {
+    case "int":
+    case "decimal": {
+      const isValid = typeof value === "number"
+        ? Number.isFinite(value) && (rule.type === "decimal" || Number.isInteger(value))
+        : (rule.type === "int" ? INT_REG : DECIMAL_REG).test(text);
+      if (!isValid) {
+        return rule.type === "int" ? "必须为整数" : "必须为数字";
+      }
+      const number = Number(text);
+      if (rule.min !== undefined && number < Number(rule.min)) {
+        return `不能小于 ${rule.min}`;
+      }
+      if (rule.max !== undefined && number > Number(rule.max)) {
+        return `不能大于 ${rule.max}`;
+      }
+      break;
+    }
+    case "date": {
+      const date = parseDate(text, rule.format);
+      if (!date.isValid()) {
+        return rule.format ? `日期格式必须为 ${rule.format}` : "必须为日期";
+      }
+      if (rule.min !== undefined && date.isBefore(parseDate(String(rule.min), rule.format))) {
+        return `不能早于 ${rule.min}`;
+      }
+      if (rule.max !== undefined && date.isAfter(parseDate(String(rule.max), rule.format))) {
+        return `不能晚于 ${rule.max}`;
+      }
+      break;
+    }
+    case "enum":
+      if (!rule.values!.includes(text)) {
+        return `必须为以下值之一: ${rule.values!.join(", ")}`;
+      }
+      break;
+    default:
+      if (rule.min !== undefined && text.length < Number(rule.min)) {
+        return `长度不能小于 ${rule.min}`;
+      }
+      if (rule.max !== undefined && text.length > Number(rule.max)) {
+        return `长度不能大于 ${rule.max}`;
+      }
+  }
+
+  if (rule.pattern !== undefined && !new RegExp(rule.pattern).test(text)) {
+    return "格式不正确";
+  }
+  return null;
+};
+
+/**
+ * 按校验规则校验行数据
+ * @param {RowData[]} rows 行数据
+ * @param {ColumnRule[]} schema 列校验规则
+ * @param {number} [startRow=0] 起始行偏移，分页读取时传入当前页的 offset
+ * @returns {ValidationResult} 校验结果
+ */
+export const validateRows = (rows: RowData[], schema: ColumnRule[], startRow = 0): ValidationResult => {
+  const valid: RowData[] = [];
+  const invalid: InvalidRow[] = [];
+  // 唯一列已出现的值及所在行号
+  const seen = new Map<string, Map<string, number>>();
+  for (const rule of schema) {
+    if (rule.unique) {
+      seen.set(rule.column, new Map());
+    }
+  }
+
+  rows.forEach((data, index) => {
+    const row = startRow + index + 1;
+    const errors: CellError[] = [];
+
+    for (const rule of schema) {
+      const value = data[rule.column];
+      if (isEmptyValue(value)) {
+        if (rule.required) {
+          errors.push({ column: rule.column, value: value ?? null, message: "不能为空" });
+        }
+        continue;
+      }
+
+      const message = validateValue(value, rule);
+      if (message) {
+        errors.push({ column: rule.column, value, message });
+        continue;
+      }
+
+      const values = seen.get(rule.column);
+      if (values) {
+        const key = String(value).trim();
+        const firstRow = values.get(key);
+        if (firstRow !== undefined) {
+          errors.push({ column: rule.column, value, message: `与第 ${firstRow} 行重复` });
+        } else {
+          values.set(key, row);
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      invalid.push({ row, data, errors });
+    } else {
+      valid.push(data);
+    }
+  });
+
+  return { valid, invalid };
+};
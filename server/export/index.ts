@@ -0,0 +1,150 @@
+import { RouterContext } from "https://deno.land/x/oak@v17.1.4/router.ts";
+import { errorBody } from "../utils/bodyFormat.ts";
+import { escapeId, mysql } from "../utils/mysql.ts";
+import type { ParamSchema, RequestInput } from "../utils/validation.ts";
+import type { ResponseSchema } from "../utils/openapi.ts";
+import { getDataInfo } from "../dataset/importer.ts";
+import {
+  contentDisposition,
+  createExportStream,
+  EXPORT_CONTENT_TYPES,
+  type ExportColumn,
+  type ExportFormat,
+} from "./writer.ts";
+
+/** 表名格式 */
+const TABLE_NAME_REG = /^[A-Za-z0-9_]+$/;
+
+/** exportData 参数规则 */
+export const exportDataQuery = {
+  table: { type: "string", description: "表名，与 datasetId 二选一" },
+  datasetId: { type: "integer", min: 1, description: "数据集ID" },
+  format: { type: "string", enum: ["csv", "xlsx"], default: "csv", description: "导出格式" },
+  columns: { type: "string", description: "导出列，逗号分隔，默认全部列" },
+  filters: { type: "string", description: "JSON 格式的筛选条件，按列值相等筛选" },
+  fileName: { type: "string", description: "下载文件名，不含扩展名" },
+} as const satisfies ParamSchema;
+
+/** exportData 响应规则 */
+export const exportDataResponse = {
+  contentType: "application/octet-stream",
+  description: "CSV 或 XLSX 文件，以附件形式下载",
+} satisfies ResponseSchema;
+
+/**
+ * 解析筛选条件参数
+ * @param {string | undefined} filters JSON 格式的筛选条件，如 {"city":"北京"}
+ * @returns {Record<string, unknown>} 筛选条件
+ * @throws {Error} 当参数格式错误时抛出错误
+ */
+const parseFilters = (filters: string | undefined): Record<string, unknown> => {
+  if (!filters) {
+    return {};
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(filters);
+  } catch (_error) {
+    throw new Error("filters参数必须为JSON对象");
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("filters参数必须为JSON对象");
+  }
+  return value as Record<string, unknown>;
+};
+
+/**
+ * 导出数据表或数据集
+ * 数据逐行读取并写入响应流，不会一次性加载全部数据
+ * @param table 表名，与 datasetId 二选一
+ * @param datasetId 数据集ID（set_data_info 中的ID），导出时使用文件中的原始表头
+ * @param format 导出格式 csv/xlsx，默认 csv
+ * @param columns 导出列，逗号分隔，默认全部列
+ * @param filters 筛选条件，JSON 对象，按列值相等筛选
+ * @param fileName 下载文件名，不含扩展名
+ */
+export const exportData = async (ctx: RouterContext<string>, { query }: RequestInput<{ query: typeof exportDataQuery }>) => {
+  const format: ExportFormat = query.format;
+
+  let table: string;
+  let fileName: string;
+  let available: ExportColumn[];
+  try {
+    const { datasetId, table: tableName } = query;
+    if (datasetId) {
+      const info = await getDataInfo(datasetId);
+      if (!info) {
+        ctx.response.status = 404;
+        ctx.response.body = errorBody("数据集不存在", null, 404);
+        return
+      }
+      table = info.data_table;
+      fileName = info.file_name.replace(/\.[^.]+$/, "");
+      available = info.column_info.map((column) => ({ key: column.name, header: column.source }));
+    } else if (tableName) {
+      if (!TABLE_NAME_REG.test(tableName)) {
+        ctx.response.status = 400;
+        ctx.response.body = errorBody("表名格式错误", null, 400);
+        return
+      }
+      const columns = await mysql.getTableColumns(tableName);
+      if (columns.length === 0) {
+        ctx.response.status = 404;
+        ctx.response.body = errorBody("数据表不存在", null, 404);
+        return
+      }
+      table = tableName;
+      fileName = tableName;
+      available = columns.map((column) => ({ key: column, header: column }));
+    } else {
+      ctx.response.status = 400;
+      ctx.response.body = errorBody("缺少table或datasetId参数", null, 400);
+      return
+    }
+  } catch (_error) {
+    ctx.response.body = errorBody("查询数据表失败");
+    return
+  }
+
+  // 校验导出列和筛选列，防止拼接任意 SQL
+  const keys = available.map((column) => column.key);
+  const columnParam = query.columns;
+  let columns = available;
+  if (columnParam) {
+    const names = columnParam.split(",").map((name) => name.trim()).filter(Boolean);
+    const unknown = names.filter((name) => !keys.includes(name));
+    if (unknown.length > 0) {
+      ctx.response.status = 400;
+      ctx.response.body = errorBody(`列不存在: ${unknown.join(", ")}`, null, 400);
+      return
+    }
+    columns = names.map((name) => available.find((column) => column.key === name)!);
+  }
+
+  let filters: Record<string, unknown>;
+  try {
+    filters = parseFilters(query.filters);
+  } catch (error) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody(error instanceof Error ? error.message : String(error), null, 400);
+    return
+  }
+  const unknownFilters = Object.keys(filters).filter((name) => !keys.includes(name));
+  if (unknownFilters.length > 0) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody(`筛选列不存在: ${unknownFilters.join(", ")}`, null, 400);
+    return
+  }
+
+  let sql = `SELECT ${columns.map((column) => escapeId(column.key)).join(", ")} FROM ${escapeId(table)}`;
+  const params = Object.values(filters);
+  if (params.length > 0) {
+    sql += ` WHERE ${Object.keys(filters).map((name) => `${escapeId(name)} = ?`).join(" AND ")}`;
+  }
+
+  const downloadName = `${query.fileName || fileName}.${format}`;
+  const rows = mysql.stream<Record<string, unknown>>(sql, params);
+  ctx.response.headers.set("Content-Type", EXPORT_CONTENT_TYPES[format]);
+  ctx.response.headers.set("Content-Disposition", contentDisposition(downloadName));
+  ctx.response.body = createExportStream(format, columns, rows, fileName);
+};
@@ -0,0 +1,208 @@
+/**
+ * 导出文件生成工具
+ * 将逐行读取的数据流式转换为 CSV 或 XLSX 文件
+ */
+import { stringify } from "@std/csv";
+import moment from "moment";
+import xlsx from "xlsx";
+import { createZipStream } from "./zip.ts";
+
+/** 导出格式 */
+export type ExportFormat = "csv" | "xlsx";
+
+/**
+ * 导出列接口
+ */
+export interface ExportColumn {
+  /** 数据字段名 */
+  key: string;
+  /** 表头 */
+  header: string;
+}
+
+/** 导出格式对应的 Content-Type */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * 格式化导出值
+ * @param {unknown} value 原始值
+ * @returns {string | number | null} 导出值
+ */
+const formatValue = (value: unknown): string | number | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return moment(value).format("YYYY-MM-DD HH:mm:ss");
+  }
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+/**
+ * 创建 CSV 数据流
+ * 输出 UTF-8 BOM，便于 Excel 正确识别中文
+ * @param {ExportColumn[]} columns 导出列
+ * @param {AsyncIterable<Record<string, unknown>>} rows 行数据
+ * @returns {ReadableStream<Uint8Array>} CSV 数据流
+ */
+export const createCSVStream = (
+  columns: ExportColumn[],
+  rows: AsyncIterable<Record<string, unknown>>,
+): ReadableStream<Uint8Array> => {
+  async function* generate(): AsyncGenerator<string> {
+    yield "\ufeff";
+    yield stringify([columns.map((column) => column.header)]);
+    for await (const row of rows) {
+      yield stringify([columns.map((column) => formatValue(row[column.key]) ?? "")]);
+    }
+  }
+  return ReadableStream.from(generate()).pipeThrough(new TextEncoderStream());
+};
+
+/**
+ * 转义 XML 文本，并移除 XML 不允许的控制字符
+ * @param {string} text 文本
+ * @returns {string} 转义后的文本
+ */
+const escapeXml = (text: string): string => {
+  return text
+    // deno-lint-ignore no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+};
+
+/**
+ * 生成工作表行 XML
+ * @param {Array<string | number | null>} values 单元格值
+ * @param {number} rowIndex 行序号（从0开始）
+ * @returns {string} 行 XML
+ */
+const rowXml = (values: Array<string | number | null>, rowIndex: number): string => {
+  const cells = values.map((value, colIndex) => {
+    if (value === null) {
+      return "";
+    }
+    const ref = xlsx.utils.encode_cell({ r: rowIndex, c: colIndex });
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return `<c r="${ref}"><v>${value}</v></c>`;
+    }
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+  });
+  return `<row r="${rowIndex + 1}">${cells.join("")}</row>`;
+};
+
+/**
+ * 规范化工作表名称，Excel 限制最长 31 个字符且不能包含 []:*?/\
+ * @param {string} name 名称
+ * @returns {string} 工作表名称
+ */
+const normalizeSheetName = (name: string): string => {
+  return name.replace(/[[\]:*?/\\]/g, "_").slice(0, 31) || "Sheet1";
+};
+
+/**
+ * 创建 XLSX 数据流
+ * 工作表使用内联字符串逐行生成，不构建完整的工作簿对象
+ * @param {ExportColumn[]} columns 导出列
+ * @param {AsyncIterable<Record<string, unknown>>} rows 行数据
+ * @param {string} [sheetName] 工作表名称
+ * @returns {ReadableStream<Uint8Array>} XLSX 数据流
+ */
+export const createXLSXStream = (
+  columns: ExportColumn[],
+  rows: AsyncIterable<Record<string, unknown>>,
+  sheetName = "Sheet1",
+): ReadableStream<Uint8Array> => {
+  const xmlHead = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const mainNs = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+  const relNs = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+  async function* sheet(): AsyncGenerator<string> {
+    yield `${xmlHead}<worksheet xmlns="${mainNs}"><sheetData>`;
+    yield rowXml(columns.map((column) => column.header), 0);
+    let rowIndex = 1;
+    for await (const row of rows) {
+      yield rowXml(columns.map((column) => formatValue(row[column.key])), rowIndex++);
+    }
+    yield "</sheetData></worksheet>";
+  }
+
+  return createZipStream([
+    {
+      name: "[Content_Types].xml",
+      data: [
+        `${xmlHead}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+        `</Types>`,
+      ],
+    },
+    {
+      name: "_rels/.rels",
+      data: [
+        `${xmlHead}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${relNs}/officeDocument" Target="xl/workbook.xml"/>` +
+        `</Relationships>`,
+      ],
+    },
+    {
+      name: "xl/workbook.xml",
+      data: [
+        `${xmlHead}<workbook xmlns="${mainNs}" xmlns:r="${relNs}"><sheets>` +
+        `<sheet name="${escapeXml(normalizeSheetName(sheetName))}" sheetId="1" r:id="rId1"/>` +
+        `</sheets></workbook>`,
+      ],
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data: [
+        `${xmlHead}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${relNs}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        `</Relationships>`,
+      ],
+    },
+    { name: "xl/worksheets/sheet1.xml", data: sheet() },
+  ]);
+};
+
+/**
+ * 创建导出数据流
+ * @param {ExportFormat} format 导出格式
+ * @param {ExportColumn[]} columns 导出列
+ * @param {AsyncIterable<Record<string, unknown>>} rows 行数据
+ * @param {string} [sheetName] 工作表名称，仅 XLSX 格式使用
+ * @returns {ReadableStream<Uint8Array>} 导出数据流
+ */
+export const createExportStream = (
+  format: ExportFormat,
+  columns: ExportColumn[],
+  rows: AsyncIterable<Record<string, unknown>>,
+  sheetName?: string,
+): ReadableStream<Uint8Array> => {
+  return format === "csv" ? createCSVStream(columns, rows) : createXLSXStream(columns, rows, sheetName);
+};
+
+/**
+ * 生成 Content-Disposition 响应头
+ * 同时提供 ASCII 文件名和 UTF-8 编码的文件名，兼容不支持 filename* 的客户端
+ * @param {string} fileName 文件名
+ * @returns {string} Content-Disposition 响应头
+ */
+export const contentDisposition = (fileName: string): string => {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
@@ -0,0 +1,200 @@
+/**
+ * 流式 ZIP 打包工具
+ * 逐个条目压缩并输出，条目内容边生成边压缩，不需要在内存中保留完整文件
+ * 条目大小、偏移或条目数超出 ZIP 格式上限时使用 ZIP64 扩展，支持超过 4GB 的条目和压缩包
+ */
+
+/**
+ * ZIP 条目接口
+ */
+export interface ZipEntry {
+  /** 条目路径 */
+  name: string;
+  /** 条目内容 */
+  data: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>;
+}
+
+/**
+ * 已写入的条目信息，用于生成中央目录
+ */
+interface WrittenEntry {
+  name: Uint8Array;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/** 4 字节字段的上限，达到时需要使用 ZIP64 扩展 */
+const UINT32_MAX = 0xffffffff;
+/** 2 字节字段的上限 */
+const UINT16_MAX = 0xffff;
+
+/** CRC32 查找表 */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * 计算 CRC32
+ * @param {number} crc 上一段数据的 CRC32，首次传 0
+ * @param {Uint8Array} data 数据
+ * @returns {number} CRC32
+ */
+const crc32 = (crc: number, data: Uint8Array): number => {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * 获取 DOS 格式的日期和时间
+ * @param {Date} date 日期
+ * @returns {{ time: number; date: number }} DOS 时间和日期
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+/**
+ * 按小端序写入二进制头
+ * @param {number} size 字节数
+ * @param {Array<[number, number]>} fields 字段列表 [字节数, 值]，字节数为 2、4 或 8
+ * @returns {Uint8Array} 二进制数据
+ */
+const writeHeader = (size: number, fields: Array<[number, number]>): Uint8Array => {
+  const buffer = new Uint8Array(size);
+  const view = new DataView(buffer.buffer);
+  let offset = 0;
+  for (const [length, value] of fields) {
+    if (length === 2) {
+      view.setUint16(offset, value, true);
+    } else if (length === 4) {
+      view.setUint32(offset, value, true);
+    } else {
+      view.setBigUint64(offset, BigInt(value), true);
+    }
+    offset += length;
+  }
+  return buffer;
+};
+
+/**
+ * 拼接字节数组
+ * @param {Uint8Array[]} parts 字节数组列表
+ * @returns {Uint8Array} 拼接结果
+ */
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+/**
+ * 创建 ZIP 数据流
+ * 条目使用 deflate 压缩，并通过数据描述符在压缩完成后写入 CRC 和大小
+ * 超过 4GB 的条目使用 8 字节大小的数据描述符，并在中央目录中写入 ZIP64 扩展字段
+ * @param {ZipEntry[]} entries 条目列表
+ * @returns {ReadableStream<Uint8Array>} ZIP 数据流
+ */
+export const createZipStream = (entries: ZipEntry[]): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+  // bit 3: 使用数据描述符；bit 11: 文件名使用 UTF-8 编码
+  const flags = 0x0808;
+
+  async function* generate(): AsyncGenerator<Uint8Array> {
+    const written: WrittenEntry[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+      const name = encoder.encode(entry.name);
+      const localHeader = concat(writeHeader(30, [
+        [4, 0x04034b50], [2, 20], [2, flags], [2, 8], [2, time], [2, date],
+        [4, 0], [4, 0], [4, 0], [2, name.length], [2, 0],
+      ]), name);
+      yield localHeader;
+
+      // 压缩前统计原始数据的 CRC 和大小
+      let crc = 0;
+      let size = 0;
+      const source = async function* () {
+        for await (const chunk of entry.data) {
+          const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+          crc = crc32(crc, bytes);
+          size += bytes.length;
+          yield bytes;
+        }
+      };
+
+      let compressedSize = 0;
+      const compressed = ReadableStream.from(source()).pipeThrough(
+        new CompressionStream("deflate-raw") as TransformStream<Uint8Array, Uint8Array>,
+      );
+      for await (const chunk of compressed) {
+        compressedSize += chunk.length;
+        yield chunk;
+      }
+
+      const descriptor = compressedSize >= UINT32_MAX || size >= UINT32_MAX
+        ? writeHeader(24, [[4, 0x08074b50], [4, crc], [8, compressedSize], [8, size]])
+        : writeHeader(16, [[4, 0x08074b50], [4, crc], [4, compressedSize], [4, size]]);
+      yield descriptor;
+
+      written.push({ name, crc, compressedSize, size, offset });
+      offset += localHeader.length + compressedSize + descriptor.length;
+    }
+
+    // 中央目录，超出上限的大小和偏移写为 0xFFFFFFFF，实际值写入 ZIP64 扩展字段
+    let directorySize = 0;
+    for (const entry of written) {
+      const zip64 = [entry.size, entry.compressedSize, entry.offset]
+        .filter((value) => value >= UINT32_MAX)
+        .map((value): [number, number] => [8, value]);
+      const extra = zip64.length > 0
+        ? writeHeader(4 + zip64.length * 8, [[2, 0x0001], [2, zip64.length * 8], ...zip64])
+        : new Uint8Array(0);
+      const version = zip64.length > 0 ? 45 : 20;
+      const header = concat(writeHeader(46, [
+        [4, 0x02014b50], [2, version], [2, version], [2, flags], [2, 8], [2, time], [2, date],
+        [4, entry.crc], [4, Math.min(entry.compressedSize, UINT32_MAX)], [4, Math.min(entry.size, UINT32_MAX)],
+        [2, entry.name.length], [2, extra.length], [2, 0], [2, 0], [2, 0], [4, 0], [4, Math.min(entry.offset, UINT32_MAX)],
+      ]), entry.name, extra);
+      directorySize += header.length;
+      yield header;
+    }
+
+    // 条目数、中央目录大小或偏移超出上限时，在结束记录前写入 ZIP64 结束记录和定位符
+    if (written.length >= UINT16_MAX || directorySize >= UINT32_MAX || offset >= UINT32_MAX) {
+      yield writeHeader(56, [
+        [4, 0x06064b50], [8, 44], [2, 45], [2, 45], [4, 0], [4, 0],
+        [8, written.length], [8, written.length], [8, directorySize], [8, offset],
+      ]);
+      yield writeHeader(20, [[4, 0x07064b50], [4, 0], [8, offset + directorySize], [4, 1]]);
+    }
+
+    yield writeHeader(22, [
+      [4, 0x06054b50], [2, 0], [2, 0], [2, Math.min(written.length, UINT16_MAX)], [2, Math.min(written.length, UINT16_MAX)],
+      [4, Math.min(directorySize, UINT32_MAX)], [4, Math.min(offset, UINT32_MAX)], [2, 0],
+    ]);
+  }
+
+  return ReadableStream.from(generate());
+};
@@ -0,0 +1,112 @@
+import { RouterContext } from "https://deno.land/x/oak@v17.1.4/router.ts";
+import { errorBody, successBody } from "../utils/bodyFormat.ts";
+import { healthChecker } from "../utils/health.ts";
+import { mysql } from "../utils/mysql.ts";
+import { CronJobManager } from "../utils/cron.ts";
+import { env } from "../config/env.ts";
+import type { ResponseSchema } from "../utils/openapi.ts";
+
+/** 服务启动时间 */
+const startedAt = Date.now();
+
+/** 存活检查响应规则 */
+export const getLivenessResponse = {
+  schema: {
+    type: "object",
+    properties: {
+      status: { type: "string", enum: ["up"] },
+      uptime: { type: "integer", description: "已运行时间 单位秒" },
+      timestamp: { type: "string", description: "检查时间" },
+    },
+  },
+} satisfies ResponseSchema;
+
+/** 就绪检查响应规则 */
+export const getReadinessResponse = {
+  description: "整体状态为 up 或 degraded，关键检查项失败时返回 503",
+  schema: {
+    type: "object",
+    properties: {
+      status: { type: "string", enum: ["up", "degraded", "down"] },
+      timestamp: { type: "string", description: "检查时间" },
+      checks: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "检查项名称" },
+            status: { type: "string", enum: ["up", "down"] },
+            critical: { type: "boolean", description: "是否为关键依赖" },
+            latency: { type: "integer", description: "耗时 单位毫秒" },
+            error: { type: "string", description: "失败原因" },
+            details: { type: "object", description: "附加信息" },
+          },
+        },
+      },
+    },
+  },
+} satisfies ResponseSchema;
+
+/**
+ * 注册内置检查项
+ * 数据库为关键依赖；开发环境检查前端开发服务器 WEB_URL 是否可访问；定时任务只报告状态，停止调度后视为失败
+ */
+export const registerHealthChecks = () => {
+  healthChecker.register({
+    name: "mysql",
+    critical: true,
+    check: async () => {
+      await mysql.ping();
+    },
+  });
+
+  if ((Deno.env.get("DENO_ENV") || "development") === "development") {
+    healthChecker.register({
+      name: "frontend",
+      critical: false,
+      check: async () => {
+        const response = await fetch(`http://${env.WEB_URL}/`, { signal: AbortSignal.timeout(3000) });
+        await response.body?.cancel();
+        return { url: env.WEB_URL, status: response.status };
+      },
+    });
+  }
+
+  healthChecker.register({
+    name: "cron",
+    critical: false,
+    check: () => {
+      const status = CronJobManager.getInstance().getStatus();
+      if (status.stopped) {
+        throw new Error("定时任务已停止调度");
+      }
+      return { jobs: status.jobs };
+    },
+  });
+};
+
+/**
+ * 存活检查
+ * 只表示进程可以响应请求，不检查依赖
+ */
+export const getLiveness = (ctx: RouterContext<string>) => {
+  ctx.response.body = successBody({
+    status: "up",
+    uptime: Math.floor((Date.now() - startedAt) / 1000),
+    timestamp: new Date().toISOString(),
+  });
+};
+
+/**
+ * 就绪检查
+ * 执行所有检查项并返回每项的结果和耗时，关键检查项失败时返回 503
+ */
+export const getReadiness = async (ctx: RouterContext<string>) => {
+  const report = await healthChecker.run();
+  if (report.status === "down") {
+    ctx.response.status = 503;
+    ctx.response.body = errorBody("服务未就绪", report, 503);
+    return
+  }
+  ctx.response.body = successBody(report);
+};
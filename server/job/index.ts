@@ -0,0 +1,128 @@
+import { RouterContext } from "https://deno.land/x/oak@v17.1.4/router.ts";
+import { errorBody, successBody } from "../utils/bodyFormat.ts";
+import type { ParamSchema, RequestInput } from "../utils/validation.ts";
+import { getFileName, getMapping, getReadOptions, getSchema, importQuery, resolveFilePath } from "../read/params.ts";
+import { importJobManager, type JobStatus } from "./manager.ts";
+
+/** 任务状态列表 */
+const JOB_STATUS: JobStatus[] = ["queued", "running", "done", "failed", "cancelled"];
+
+/** 任务ID参数规则 */
+const jobIdQuery = {
+  jobId: { type: "string", required: true, description: "任务ID" },
+} as const satisfies ParamSchema;
+
+/** createImportJob 参数规则 */
+export const createImportJobQuery = importQuery;
+
+/** getImportJob 参数规则 */
+export const getImportJobQuery = jobIdQuery;
+
+/** getImportJobList 参数规则 */
+export const getImportJobListQuery = {
+  status: { type: "string", enum: JOB_STATUS, description: "任务状态" },
+  limit: { type: "integer", min: 1, max: 500, default: 50, description: "返回数量" },
+} as const satisfies ParamSchema;
+
+/** cancelImportJob 参数规则 */
+export const cancelImportJobQuery = jobIdQuery;
+
+/**
+ * 创建后台导入任务
+ * 立即返回任务ID，导入在后台执行，可通过 getImportJob 查询进度
+ * @param id 上传ID
+ * @param url 数据目录下的文件路径
+ * @param fileName 文件名称，不传时使用上传文件名或文件地址中的文件名
+ * @param format、encoding、sheet、headerRow、range、raw、fillMerged 文件读取配置，同 readFile
+ * @param mapping JSON 格式的列映射规则
+ * @param mappingPreset 映射预设名称，创建任务时读取预设内容，之后修改预设不影响该任务
+ * @param schema 列校验规则，存在映射规则时校验映射后的目标列，存在无效行时任务失败
+ * @param skipInvalid 是否跳过无效行，为 true 时只导入有效行
+ */
+export const createImportJob = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof createImportJobQuery }>,
+) => {
+  const url = await resolveFilePath(ctx, query);
+  if (!url) {
+    return
+  }
+  const read = getReadOptions(query);
+  let mapping, schema;
+  try {
+    mapping = await getMapping(query);
+    schema = getSchema(query);
+  } catch (error) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody(error instanceof Error ? error.message : String(error), null, 400);
+    return
+  }
+  try {
+    await Deno.stat(url);
+  } catch (_error) {
+    ctx.response.status = 404;
+    ctx.response.body = errorBody("文件不存在", null, 404);
+    return
+  }
+
+  try {
+    const jobId = await importJobManager.create(await getFileName(query, url), url, {
+      read,
+      mapping,
+      schema,
+      skipInvalid: query.skipInvalid,
+    });
+    ctx.response.body = successBody({ jobId });
+  } catch (_error) {
+    ctx.response.body = errorBody("创建导入任务失败");
+  }
+};
+
+/**
+ * 查询导入任务
+ * @param jobId 任务ID
+ */
+export const getImportJob = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof getImportJobQuery }>,
+) => {
+  try {
+    const job = await importJobManager.get(query.jobId);
+    ctx.response.body = job ? successBody(job) : errorBody("导入任务不存在");
+  } catch (_error) {
+    ctx.response.body = errorBody("查询导入任务失败");
+  }
+};
+
+/**
+ * 查询导入任务列表
+ * @param status 任务状态 queued/running/done/failed/cancelled
+ * @param limit 返回数量，默认 50
+ */
+export const getImportJobList = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof getImportJobListQuery }>,
+) => {
+  try {
+    ctx.response.body = successBody(await importJobManager.list(query.status, query.limit));
+  } catch (_error) {
+    ctx.response.body = errorBody("查询导入任务失败");
+  }
+};
+
+/**
+ * 取消导入任务
+ * @param jobId 任务ID
+ */
+export const cancelImportJob = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof cancelImportJobQuery }>,
+) => {
+  const { jobId } = query;
+  try {
+    const cancelled = await importJobManager.cancel(jobId);
+    ctx.response.body = cancelled ? successBody({ jobId }) : errorBody("导入任务不存在或已结束");
+  } catch (_error) {
+    ctx.response.body = errorBody("取消导入任务失败");
+  }
+};
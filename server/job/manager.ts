@@ -0,0 +1,451 @@
+/**
+ * 后台导入任务管理
+ * 导入任务保存在 MySQL 中，按创建顺序在后台逐个执行，服务重启后会继续执行未完成的任务
+ */
+import moment from "moment";
+import { escapeId, mysql } from "../utils/mysql.ts";
+import { Logger } from "../utils/logger.ts";
+import { type FileReadOptions, readFileRows } from "../read/parser.ts";
+import { DATA_INFO_TABLE, type DataInfo, ensureDataInfoTable, importDataset } from "../dataset/importer.ts";
+import { type ColumnRule, type InvalidRow, parseSchema } from "../dataset/validator.ts";
+import { type MappingSpec, parseMapping } from "../dataset/mapping.ts";
+import { prepareRows } from "../dataset/prepare.ts";
+
+/** 导入任务表 */
+export const IMPORT_JOB_TABLE = "set_import_job";
+
+/** 任务记录中保存的无效行最大数量 */
+const MAX_SAVED_ERRORS = 100;
+
+/** 任务状态 */
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+/**
+ * 导入任务配置接口
+ */
+export interface ImportJobOptions {
+  /** 文件读取配置 */
+  read?: FileReadOptions;
+  /** 列映射规则 */
+  mapping?: MappingSpec;
+  /** 列校验规则 */
+  schema?: ColumnRule[];
+  /** 是否跳过无效行 */
+  skipInvalid?: boolean;
+}
+
+/**
+ * 导入任务接口，对应 set_import_job 表
+ */
+export interface ImportJob {
+  /** 任务ID */
+  id: string;
+  /** 任务状态 */
+  status: JobStatus;
+  /** 文件名称 */
+  file_name: string;
+  /** 文件路径 */
+  file_path: string;
+  /** 任务配置 JSON */
+  options: string | ImportJobOptions | null;
+  /** 总行数 */
+  total_rows: number;
+  /** 已处理行数 */
+  processed_rows: number;
+  /** 导入完成后的数据集ID */
+  dataset_id: number | null;
+  /** 导入过程中创建的数据表 */
+  data_table: string | null;
+  /** 错误信息 */
+  error: string | null;
+  /** 无效行 JSON */
+  errors: string | InvalidRow[] | null;
+  /** 创建时间 */
+  created_at: string;
+  /** 开始时间 */
+  started_at: string | null;
+  /** 结束时间 */
+  finished_at: string | null;
+}
+
+/**
+ * 获取当前时间
+ * @returns {string} 格式化的时间 YYYY-MM-DD HH:mm:ss
+ */
+const now = (): string => moment().format("YYYY-MM-DD HH:mm:ss");
+
+/**
+ * 解析 JSON 列，驱动可能已将 JSON 列解析为对象
+ * @param {unknown} value 列值
+ * @returns {T | null} 解析结果
+ */
+const parseJson = <T>(value: unknown): T | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return (typeof value === "string" ? JSON.parse(value) : value) as T;
+};
+
+/**
+ * 判断值是否为普通对象
+ * @param {unknown} value 值
+ * @returns {boolean} 是否为对象
+ */
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+};
+
+/**
+ * 解析任务配置
+ * 配置从任务表中读取，执行前重新校验，只保留类型正确的读取配置
+ * @param {unknown} value options 列值
+ * @returns {ImportJobOptions} 任务配置
+ * @throws {Error} 当配置格式错误时抛出错误
+ */
+const parseJobOptions = (value: unknown): ImportJobOptions => {
+  const options = parseJson<unknown>(value) ?? {};
+  if (!isObject(options)) {
+    throw new Error("任务配置格式错误");
+  }
+  const { read = {}, mapping, schema, skipInvalid } = options;
+  if (!isObject(read)) {
+    throw new Error("任务配置的read格式错误");
+  }
+  const readString = (key: string) => typeof read[key] === "string" ? read[key] as string : undefined;
+  const readBoolean = (key: string) => typeof read[key] === "boolean" ? read[key] as boolean : undefined;
+  return {
+    read: {
+      format: readString("format"),
+      encoding: readString("encoding"),
+      sheet: readString("sheet"),
+      headerRow: typeof read.headerRow === "number" ? read.headerRow : undefined,
+      range: readString("range"),
+      raw: readBoolean("raw"),
+      fillMerged: readBoolean("fillMerged"),
+    },
+    mapping: mapping === undefined || mapping === null ? undefined : parseMapping(mapping),
+    schema: schema === undefined || schema === null ? undefined : parseSchema(schema),
+    skipInvalid: skipInvalid === true,
+  };
+};
+
+/**
+ * 导入任务管理器
+ * 使用单例模式确保全局只有一个任务队列
+ *
+ * @example
+ * ```ts
+ * const manager = ImportJobManager.getInstance();
+ * const id = await manager.create("data.csv", "./uploads/xxx.csv", {});
+ * const job = await manager.get(id);
+ * ```
+ */
+export class ImportJobManager {
+  private static instance: ImportJobManager;
+  private queue: string[];
+  private controllers: Map<string, AbortController>;
+  private processing = false;
+  private stopping = false;
+  private current: Promise<void> | null = null;
+  private tableReady = false;
+  private logger: Logger;
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    this.queue = [];
+    this.controllers = new Map();
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * 获取ImportJobManager的单例实例
+   * @returns {ImportJobManager} ImportJobManager的单例实例
+   */
+  public static getInstance(): ImportJobManager {
+    if (!ImportJobManager.instance) {
+      ImportJobManager.instance = new ImportJobManager();
+    }
+    return ImportJobManager.instance;
+  }
+
+  /**
+   * 确保任务表存在
+   */
+  private async ensureTable(): Promise<void> {
+    if (this.tableReady) {
+      return;
+    }
+    await mysql.query(`
+      CREATE TABLE IF NOT EXISTS ${IMPORT_JOB_TABLE} (
+        id VARCHAR(36) PRIMARY KEY,
+        status VARCHAR(16) NOT NULL,
+        file_name VARCHAR(255) NOT NULL,
+        file_path VARCHAR(1024) NOT NULL,
+        options JSON NULL,
+        total_rows INT NOT NULL DEFAULT 0,
+        processed_rows INT NOT NULL DEFAULT 0,
+        dataset_id INT NULL,
+        data_table VARCHAR(64) NULL,
+        error TEXT NULL,
+        errors JSON NULL,
+        created_at DATETIME NOT NULL,
+        started_at DATETIME NULL,
+        finished_at DATETIME NULL,
+        INDEX idx_status (status)
+      )
+    `);
+    this.tableReady = true;
+  }
+
+  /**
+   * 更新任务记录
+   * @param {string} id 任务ID
+   * @param {Partial<ImportJob>} data 要更新的字段
+   */
+  private async update(id: string, data: Partial<ImportJob>): Promise<void> {
+    await mysql.update(IMPORT_JOB_TABLE, data, { id });
+  }
+
+  /**
+   * 只在任务处于指定状态时更新任务记录，避免取消和开始执行互相覆盖
+   * @param {string} id 任务ID
+   * @param {JobStatus} status 当前状态
+   * @param {Partial<ImportJob>} data 要更新的字段
+   * @returns {Promise<boolean>} 是否更新成功，状态已变化时返回 false
+   */
+  private async updateIfStatus(id: string, status: JobStatus, data: Partial<ImportJob>): Promise<boolean> {
+    const { affectedRows } = await mysql.update(IMPORT_JOB_TABLE, data, { id, status });
+    return affectedRows > 0;
+  }
+
+  /**
+   * 创建导入任务并加入队列
+   * @param {string} fileName 文件名称
+   * @param {string} filePath 文件路径
+   * @param {ImportJobOptions} options 任务配置
+   * @returns {Promise<string>} 任务ID
+   */
+  public async create(fileName: string, filePath: string, options: ImportJobOptions): Promise<string> {
+    await this.ensureTable();
+    const id = crypto.randomUUID();
+    await mysql.insert(IMPORT_JOB_TABLE, {
+      id,
+      status: "queued",
+      file_name: fileName,
+      file_path: filePath,
+      options: JSON.stringify(options),
+      created_at: now(),
+    });
+    this.logger.info(`导入任务已创建: ${id}`, { fileName });
+
+    this.queue.push(id);
+    this.processQueue();
+    return id;
+  }
+
+  /**
+   * 获取任务详情
+   * @param {string} id 任务ID
+   * @returns {Promise<ImportJob | null>} 任务详情，JSON 列已解析，未找到时返回 null
+   */
+  public async get(id: string): Promise<ImportJob | null> {
+    await this.ensureTable();
+    const job = await mysql.findOne<ImportJob>(IMPORT_JOB_TABLE, { id });
+    if (!job) {
+      return null;
+    }
+    return {
+      ...job,
+      options: parseJson<ImportJobOptions>(job.options),
+      errors: parseJson<InvalidRow[]>(job.errors),
+    };
+  }
+
+  /**
+   * 获取最近的任务列表
+   * @param {JobStatus} [status] 按状态筛选
+   * @param {number} [limit=50] 返回数量
+   * @returns {Promise<ImportJob[]>} 任务列表，不包含无效行详情
+   */
+  public async list(status?: JobStatus, limit = 50): Promise<ImportJob[]> {
+    await this.ensureTable();
+    const fields = [
+      "id", "status", "file_name", "total_rows", "processed_rows", "dataset_id",
+      "error", "created_at", "started_at", "finished_at",
+    ];
+    return await mysql.findAll<ImportJob>(
+      IMPORT_JOB_TABLE,
+      status ? { status } : undefined,
+      fields,
+      "created_at DESC",
+      limit,
+    );
+  }
+
+  /**
+   * 取消任务
+   * 排队中的任务直接取消，执行中的任务会在当前批次写入后中止并回滚
+   * @param {string} id 任务ID
+   * @returns {Promise<boolean>} 是否取消成功，任务不存在或已结束时返回 false
+   */
+  public async cancel(id: string): Promise<boolean> {
+    const job = await this.get(id);
+    if (!job) {
+      return false;
+    }
+    if (job.status === "queued") {
+      this.queue = this.queue.filter((item) => item !== id);
+      if (await this.updateIfStatus(id, "queued", { status: "cancelled", finished_at: now() })) {
+        this.logger.info(`导入任务已取消: ${id}`);
+        return true;
+      }
+    }
+    // 读取任务后任务可能已开始执行，此时中止正在执行的任务
+    const controller = this.controllers.get(id);
+    if (controller) {
+      controller.abort();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 恢复未完成的任务
+   * 服务启动时调用，上次退出时正在执行的任务会清理残留数据表后重新执行
+   */
+  public async resume(): Promise<void> {
+    await this.ensureTable();
+    await ensureDataInfoTable();
+    const jobs = await mysql.query<ImportJob[]>(
+      `SELECT * FROM ${IMPORT_JOB_TABLE} WHERE status IN ('queued', 'running') ORDER BY created_at`,
+    );
+
+    for (const job of jobs) {
+      if (job.status === "running" && job.data_table) {
+        // 事务已提交但未来得及更新任务状态时，直接标记为完成
+        const info = await mysql.findOne<DataInfo>(DATA_INFO_TABLE, { data_table: job.data_table });
+        if (info) {
+          await this.update(job.id, { status: "done", dataset_id: info.id, processed_rows: info.row_count, finished_at: now() });
+          continue;
+        }
+        await mysql.query(`DROP TABLE IF EXISTS ${escapeId(job.data_table)}`);
+      }
+      await this.update(job.id, { status: "queued", processed_rows: 0, data_table: null });
+      if (!this.queue.includes(job.id)) {
+        this.queue.push(job.id);
+      }
+    }
+
+    if (jobs.length > 0) {
+      this.logger.info(`恢复导入任务: ${jobs.length} 个`);
+    }
+    this.processQueue();
+  }
+
+  /**
+   * 停止执行任务
+   * 停机时调用，等待正在执行的任务完成，队列中的任务保持排队状态，服务重启后继续执行
+   * @returns {Promise<void>}
+   */
+  public async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.current) {
+      this.logger.info(`等待正在执行的导入任务完成，排队任务 ${this.queue.length} 个`);
+      await this.current.catch(() => {});
+    }
+  }
+
+  /**
+   * 按顺序执行队列中的任务
+   */
+  private async processQueue(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    try {
+      while (this.queue.length > 0 && !this.stopping) {
+        const id = this.queue.shift()!;
+        try {
+          this.current = this.run(id);
+          await this.current;
+        } catch (error) {
+          this.logger.error(`导入任务执行异常: ${id}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        } finally {
+          this.current = null;
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * 执行单个任务
+   * @param {string} id 任务ID
+   */
+  private async run(id: string): Promise<void> {
+    const job = await this.get(id);
+    if (!job || job.status !== "queued") {
+      return;
+    }
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+    // 任务在读取后被取消时不再执行
+    if (!await this.updateIfStatus(id, "queued", { status: "running", started_at: now() })) {
+      this.controllers.delete(id);
+      return;
+    }
+    this.logger.info(`导入任务开始执行: ${id}`, { fileName: job.file_name });
+
+    try {
+      const options = parseJobOptions(job.options);
+      let rows = await readFileRows(job.file_path, options.read);
+      controller.signal.throwIfAborted();
+      await this.update(id, { total_rows: rows.length });
+
+      if (options.mapping || options.schema) {
+        const { valid, invalid } = prepareRows(rows, options);
+        controller.signal.throwIfAborted();
+        if (invalid.length > 0) {
+          await this.update(id, { errors: JSON.stringify(invalid.slice(0, MAX_SAVED_ERRORS)) });
+          if (!options.skipInvalid) {
+            throw new Error(`数据校验失败，共 ${invalid.length} 行无效`);
+          }
+        }
+        rows = valid;
+      }
+
+      const result = await importDataset(job.file_name, rows, {
+        signal: controller.signal,
+        onTable: (table) => this.update(id, { data_table: table }),
+        onProgress: (processed) => this.update(id, { processed_rows: processed }),
+      });
+
+      await this.update(id, { status: "done", dataset_id: result.id, finished_at: now() });
+      this.logger.info(`导入任务执行成功: ${id}`, { datasetId: result.id, rowCount: result.rowCount });
+    } catch (error) {
+      const cancelled = controller.signal.aborted;
+      const message = error instanceof Error ? error.message : String(error);
+      await this.update(id, {
+        status: cancelled ? "cancelled" : "failed",
+        error: cancelled ? null : message,
+        finished_at: now(),
+      });
+      if (cancelled) {
+        this.logger.info(`导入任务已取消: ${id}`);
+      } else {
+        this.logger.error(`导入任务执行失败: ${id}`, { error: message });
+      }
+    } finally {
+      this.controllers.delete(id);
+    }
+  }
+}
+
+// 导出单例实例
+export const importJobManager = ImportJobManager.getInstance();
@@ -0,0 +1,95 @@
+import { RouterContext } from "https://deno.land/x/oak@v17.1.4/router.ts";
+import { errorBody, successBody } from "../utils/bodyFormat.ts";
+import type { ParamSchema, RequestInput } from "../utils/validation.ts";
+import { parseMapping } from "../dataset/mapping.ts";
+import { deleteMappingPreset, getMappingPreset, listMappingPresets, saveMappingPreset } from "./preset.ts";
+
+/** 预设名称最大长度 */
+const MAX_NAME_LENGTH = 100;
+
+/** 预设名称参数规则 */
+const nameQuery = {
+  name: { type: "string", required: true, description: "预设名称" },
+} as const satisfies ParamSchema;
+
+/** saveMappingPresetData 请求体规则 */
+export const saveMappingPresetDataBody = {
+  name: { type: "string", required: true, pattern: "\\S", max: MAX_NAME_LENGTH, description: "预设名称" },
+  description: { type: "string", description: "说明" },
+  spec: { type: "object", required: true, description: "映射规则" },
+} as const satisfies ParamSchema;
+
+/** getMappingPresetData 参数规则 */
+export const getMappingPresetDataQuery = nameQuery;
+
+/** deleteMappingPresetData 参数规则 */
+export const deleteMappingPresetDataQuery = nameQuery;
+
+/**
+ * 保存映射预设，名称已存在时覆盖
+ * 请求体为 JSON：{ "name": "员工花名册", "description": "说明", "spec": { "columns": [...] } }
+ */
+export const saveMappingPresetData = async (
+  ctx: RouterContext<string>,
+  { body }: RequestInput<{ body: typeof saveMappingPresetDataBody }>,
+) => {
+  const name = body.name.trim();
+  let spec;
+  try {
+    spec = parseMapping(body.spec);
+  } catch (error) {
+    ctx.response.body = errorBody((error as Error).message);
+    return
+  }
+
+  try {
+    const id = await saveMappingPreset(name, spec, body.description);
+    ctx.response.body = successBody({ id, name });
+  } catch (_error) {
+    ctx.response.body = errorBody("保存映射预设失败");
+  }
+};
+
+/**
+ * 查询映射预设
+ * @param name 预设名称
+ */
+export const getMappingPresetData = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof getMappingPresetDataQuery }>,
+) => {
+  try {
+    const preset = await getMappingPreset(query.name);
+    ctx.response.body = preset ? successBody(preset) : errorBody("映射预设不存在");
+  } catch (_error) {
+    ctx.response.body = errorBody("查询映射预设失败");
+  }
+};
+
+/**
+ * 查询映射预设列表
+ */
+export const getMappingPresetList = async (ctx: RouterContext<string>) => {
+  try {
+    ctx.response.body = successBody(await listMappingPresets());
+  } catch (_error) {
+    ctx.response.body = errorBody("查询映射预设失败");
+  }
+};
+
+/**
+ * 删除映射预设
+ * @param name 预设名称
+ */
+export const deleteMappingPresetData = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof deleteMappingPresetDataQuery }>,
+) => {
+  const { name } = query;
+  try {
+    const deleted = await deleteMappingPreset(name);
+    ctx.response.body = deleted ? successBody({ name }) : errorBody("映射预设不存在");
+  } catch (_error) {
+    ctx.response.body = errorBody("删除映射预设失败");
+  }
+};
@@ -0,0 +1,126 @@
+/**
+ * 映射预设管理
+ * 将常用的列映射规则按名称保存在 set_mapping_preset 表中，导入时通过名称复用
+ *
+ * @example
+ * ```ts
+ * await saveMappingPreset("员工花名册", spec, "人事系统导出的花名册");
+ * const preset = await getMappingPreset("员工花名册");
+ * ```
+ */
+import moment from "moment";
+import { mysql } from "../utils/mysql.ts";
+import { type MappingSpec, parseMapping } from "../dataset/mapping.ts";
+
+/** 映射预设表 */
+export const MAPPING_PRESET_TABLE = "set_mapping_preset";
+
+/**
+ * 映射预设接口，对应 set_mapping_preset 表
+ */
+export interface MappingPreset {
+  /** 预设ID */
+  id: number;
+  /** 预设名称 */
+  name: string;
+  /** 说明 */
+  description: string | null;
+  /** 映射规则 JSON */
+  spec: string | MappingSpec;
+  /** 创建时间 */
+  created_at: string;
+  /** 更新时间 */
+  updated_at: string;
+}
+
+let presetReady = false;
+
+/**
+ * 确保 set_mapping_preset 表存在
+ */
+const ensurePresetTable = async (): Promise<void> => {
+  if (presetReady) {
+    return;
+  }
+  await mysql.query(`
+    CREATE TABLE IF NOT EXISTS ${MAPPING_PRESET_TABLE} (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      description VARCHAR(500) NULL,
+      spec JSON NOT NULL,
+      created_at DATETIME NOT NULL,
+      updated_at DATETIME NOT NULL,
+      UNIQUE KEY uk_name (name)
+    )
+  `);
+  presetReady = true;
+};
+
+/**
+ * 根据名称获取映射预设
+ * @param {string} name 预设名称
+ * @returns {Promise<(MappingPreset & { spec: MappingSpec }) | null>} 映射预设，规则已解析，未找到时返回 null
+ */
+export const getMappingPreset = async (name: string): Promise<(MappingPreset & { spec: MappingSpec }) | null> => {
+  await ensurePresetTable();
+  const preset = await mysql.findOne<MappingPreset>(MAPPING_PRESET_TABLE, { name });
+  if (!preset) {
+    return null;
+  }
+  // JSON 列可能已被驱动解析为对象
+  return { ...preset, spec: parseMapping(preset.spec) };
+};
+
+/**
+ * 获取映射预设列表
+ * @returns {Promise<MappingPreset[]>} 映射预设列表，不包含规则详情
+ */
+export const listMappingPresets = async (): Promise<MappingPreset[]> => {
+  await ensurePresetTable();
+  return await mysql.findAll<MappingPreset>(
+    MAPPING_PRESET_TABLE,
+    undefined,
+    ["id", "name", "description", "created_at", "updated_at"],
+    "name",
+  );
+};
+
+/**
+ * 保存映射预设，名称已存在时覆盖
+ * @param {string} name 预设名称
+ * @param {MappingSpec} spec 映射规则
+ * @param {string} [description] 说明
+ * @returns {Promise<number>} 预设ID
+ */
+export const saveMappingPreset = async (name: string, spec: MappingSpec, description?: string): Promise<number> => {
+  await ensurePresetTable();
+  const time = moment().format("YYYY-MM-DD HH:mm:ss");
+  const existing = await mysql.findOne<MappingPreset>(MAPPING_PRESET_TABLE, { name });
+  if (existing) {
+    await mysql.update(MAPPING_PRESET_TABLE, {
+      spec: JSON.stringify(spec),
+      description: description ?? existing.description,
+      updated_at: time,
+    }, { id: existing.id });
+    return existing.id;
+  }
+  const { id } = await mysql.insert(MAPPING_PRESET_TABLE, {
+    name,
+    description: description ?? null,
+    spec: JSON.stringify(spec),
+    created_at: time,
+    updated_at: time,
+  });
+  return id;
+};
+
+/**
+ * 删除映射预设
+ * @param {string} name 预设名称
+ * @returns {Promise<boolean>} 是否删除成功，预设不存在时返回 false
+ */
+export const deleteMappingPreset = async (name: string): Promise<boolean> => {
+  await ensurePresetTable();
+  const { affectedRows } = await mysql.delete(MAPPING_PRESET_TABLE, { name });
+  return affectedRows > 0;
+};
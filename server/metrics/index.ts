@@ -0,0 +1,19 @@
+import { RouterContext } from "https://deno.land/x/oak@v17.1.4/router.ts";
+import { metrics } from "../utils/metrics.ts";
+import type { ResponseSchema } from "../utils/openapi.ts";
+
+/** 监控指标响应规则 */
+export const getMetricsResponse = {
+  contentType: "text/plain",
+  schema: { type: "string" },
+  description: "Prometheus 文本格式的指标",
+} satisfies ResponseSchema;
+
+/**
+ * 输出监控指标
+ * 返回 Prometheus 文本格式，供 Prometheus 定时抓取
+ */
+export const getMetrics = async (ctx: RouterContext<string>) => {
+  ctx.response.headers.set("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+  ctx.response.body = await metrics.render();
+};
@@ -0,0 +1,119 @@
+import { Context, Middleware } from "https://deno.land/x/oak/mod.ts";
+import { env } from "../config/env.ts";
+import { errorBody } from "../utils/bodyFormat.ts";
+
+/** 允许浏览器读取的响应头 */
+const EXPOSE_HEADERS = [
+  "Content-Disposition",
+  "Retry-After",
+  "X-RateLimit-Limit",
+  "X-RateLimit-Remaining",
+  "X-RateLimit-Reset",
+];
+
+/**
+ * 拆分逗号分隔的配置
+ * @param {string} value 配置值
+ * @returns {string[]} 去除空白后的配置项
+ */
+const splitList = (value: string): string[] => {
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+};
+
+/** 允许的来源规则，* 匹配任意字符（不含 /），如 https://*.example.com、http://localhost:* */
+const originPatterns = splitList(env.CORS_ORIGINS).map((origin) => {
+  if (origin === "*") {
+    return null;
+  }
+  const source = origin.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]+");
+  return new RegExp(`^${source}$`, "i");
+});
+
+/** 是否启用跨域，CORS_ORIGINS 为空时不启用 */
+export const isCorsEnabled = originPatterns.length > 0;
+
+/**
+ * 判断来源是否允许跨域
+ * @param {string} origin 请求头 Origin
+ * @returns {boolean} 是否允许
+ */
+const isAllowedOrigin = (origin: string): boolean => {
+  return originPatterns.some((pattern) => pattern === null || pattern.test(origin));
+};
+
+/**
+ * 设置跨域公共响应头
+ * 配置为 * 且不允许携带凭证时返回 *，否则返回请求的来源
+ * @param {Context} ctx - 上下文对象
+ * @param {string} origin - 请求头 Origin
+ */
+const setOriginHeaders = (ctx: Context, origin: string): void => {
+  const headers = ctx.response.headers;
+  const allowAll = !env.CORS_CREDENTIALS && originPatterns.includes(null);
+  headers.set("Access-Control-Allow-Origin", allowAll ? "*" : origin);
+  if (!allowAll) {
+    headers.append("Vary", "Origin");
+  }
+  if (env.CORS_CREDENTIALS) {
+    headers.set("Access-Control-Allow-Credentials", "true");
+  }
+};
+
+/**
+ * 跨域中间件
+ * 为允许的来源设置跨域响应头，只处理接口请求，预检请求由 corsPreflight 处理
+ *
+ * @param {Context} ctx - 上下文对象，包含请求和响应的详细信息
+ * @param {Next} next - 下一个中间件函数
+ * @returns {Promise<void>} - 中间件执行完成的 Promise
+ */
+export const corsMiddleware: Middleware = async (ctx, next) => {
+  const origin = ctx.request.headers.get("origin");
+  const isApi = ctx.request.url.pathname.startsWith(env.PREFIX);
+  if (isCorsEnabled && origin && isApi && ctx.request.method !== "OPTIONS" && isAllowedOrigin(origin)) {
+    setOriginHeaders(ctx, origin);
+    ctx.response.headers.set("Access-Control-Expose-Headers", EXPOSE_HEADERS.join(", "));
+  }
+  await next();
+};
+
+/**
+ * 生成预检请求处理函数
+ * 返回的允许方法为该地址已注册的方法与 CORS_METHODS 的交集
+ *
+ * @param {string[]} methods - 该地址已注册的请求方法
+ * @returns {(ctx: Context) => void} - OPTIONS 请求处理函数
+ */
+export const corsPreflight = (methods: string[]) => {
+  const allowMethods = splitList(env.CORS_METHODS).map((method) => method.toUpperCase());
+  const routeMethods = methods.filter((method) => allowMethods.includes(method));
+  const allowHeaders = splitList(env.CORS_HEADERS);
+
+  return (ctx: Context) => {
+    const origin = ctx.request.headers.get("origin");
+    const requestMethod = ctx.request.headers.get("access-control-request-method");
+    // 非跨域的 OPTIONS 请求只返回支持的方法
+    if (!origin || !requestMethod) {
+      ctx.response.status = 204;
+      ctx.response.headers.set("Allow", [...methods, "OPTIONS"].join(", "));
+      return;
+    }
+    if (!isAllowedOrigin(origin) || !routeMethods.includes(requestMethod.toUpperCase())) {
+      ctx.response.status = 403;
+      ctx.response.body = errorBody("跨域请求不被允许", null, 403);
+      return;
+    }
+
+    setOriginHeaders(ctx, origin);
+    ctx.response.status = 204;
+    ctx.response.headers.set("Access-Control-Allow-Methods", routeMethods.join(", "));
+    // 配置为 * 时返回请求的头，允许携带凭证时浏览器不接受 *
+    const requestHeaders = ctx.request.headers.get("access-control-request-headers");
+    const headers = allowHeaders.includes("*") ? requestHeaders ?? "" : allowHeaders.join(", ");
+    if (headers) {
+      ctx.response.headers.set("Access-Control-Allow-Headers", headers);
+    }
+    ctx.response.headers.set("Access-Control-Max-Age", String(env.CORS_MAX_AGE));
+    ctx.response.headers.append("Vary", "Access-Control-Request-Method, Access-Control-Request-Headers");
+  };
+};
@@ -0,0 +1,96 @@
+/**
+ * 文本编码检测工具
+ * 用于识别 CSV 等文本文件的编码，支持 BOM 检测、UTF-8 校验和 GB18030 兜底
+ *
+ * @example
+ * ```ts
+ * const encoding = await detectFileEncoding("./data.csv");
+ * const text = new TextDecoder(encoding).decode(await Deno.readFile("./data.csv"));
+ * ```
+ */
+
+/** 编码检测读取的样本大小 单位字节 */
+const SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * 规范化编码名称
+ * @param {string} label 编码名称，如 utf8、GBK、gb2312
+ * @returns {string} 规范化后的编码名称
+ * @throws {Error} 当编码不支持时抛出错误
+ */
+export const normalizeEncoding = (label: string): string => {
+  try {
+    return new TextDecoder(label).encoding;
+  } catch (_error) {
+    throw new Error(`不支持的编码: ${label}`);
+  }
+};
+
+/**
+ * 根据字节内容检测编码
+ * 有 BOM 时以 BOM 为准；没有 BOM 时能按 UTF-8 解码则为 UTF-8，否则按 GB18030（兼容 GBK、GB2312）处理
+ * @param {Uint8Array} bytes 文件开头的字节
+ * @returns {string} 编码名称
+ */
+export const detectEncoding = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return "utf-16le";
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return "utf-16be";
+  }
+  try {
+    // 样本可能在多字节字符中间截断，使用 stream 模式忽略末尾不完整的字符
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+    return "utf-8";
+  } catch (_error) {
+    return "gb18030";
+  }
+};
+
+/**
+ * 读取文件开头的字节，用于编码和格式识别
+ * @param {string} path 文件路径
+ * @param {number} size 最多读取的字节数
+ * @returns {Promise<Uint8Array>} 文件开头的字节，文件较小时为整个文件
+ */
+export const readFileSample = async (path: string, size: number): Promise<Uint8Array> => {
+  const file = await Deno.open(path, { read: true });
+  try {
+    const buffer = new Uint8Array(size);
+    let length = 0;
+    while (length < size) {
+      const count = await file.read(buffer.subarray(length));
+      if (count === null) {
+        break;
+      }
+      length += count;
+    }
+    return buffer.subarray(0, length);
+  } finally {
+    file.close();
+  }
+};
+
+/**
+ * 检测文件编码
+ * @param {string} path 文件路径
+ * @returns {Promise<string>} 编码名称
+ */
+export const detectFileEncoding = async (path: string): Promise<string> => {
+  return detectEncoding(await readFileSample(path, SAMPLE_SIZE));
+};
+
+/**
+ * 获取文件编码，指定编码时直接使用，否则自动检测
+ * @param {string} path 文件路径
+ * @param {string} [encoding] 指定的编码
+ * @returns {Promise<string>} 编码名称
+ * @throws {Error} 当指定的编码不支持时抛出错误
+ */
+export const resolveFileEncoding = async (path: string, encoding?: string): Promise<string> => {
+  return encoding ? normalizeEncoding(encoding) : await detectFileEncoding(path);
+};
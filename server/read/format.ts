@@ -0,0 +1,131 @@
+/**
+ * 文件格式识别工具
+ * 按指定格式、扩展名、文件内容的顺序识别文件格式
+ *
+ * @example
+ * ```ts
+ * const format = await detectFileFormat("./uploads/data.txt");
+ * const rows = await readFileRows("./uploads/data.txt", { format });
+ * ```
+ */
+import { getExtension } from "../utils/upload.ts";
+import { detectEncoding, readFileSample } from "./encoding.ts";
+
+/** 文件格式 */
+export type FileFormat = "csv" | "tsv" | "json" | "ndjson" | "xlsx" | "xls";
+
+/** 支持的文件格式 */
+export const FILE_FORMATS: FileFormat[] = ["csv", "tsv", "json", "ndjson", "xlsx", "xls"];
+
+/** 扩展名对应的文件格式 */
+export const FORMAT_EXTENSIONS: Record<string, FileFormat> = {
+  ".csv": "csv",
+  ".tsv": "tsv",
+  ".tab": "tsv",
+  ".json": "json",
+  ".ndjson": "ndjson",
+  ".jsonl": "ndjson",
+  ".xlsx": "xlsx",
+  ".xls": "xls",
+};
+
+/** 内容识别读取的样本大小 单位字节 */
+const SAMPLE_SIZE = 4 * 1024;
+/** 文本文件中可能出现的控制字符：制表符、换行符、回车符等 */
+const TEXT_CONTROL_CHARS = new Set([0x09, 0x0a, 0x0b, 0x0c, 0x0d, 0x1b]);
+
+/**
+ * 规范化文件格式名称
+ * @param {string} format 格式名称，不区分大小写，jsonl 视为 ndjson
+ * @returns {FileFormat} 文件格式
+ * @throws {Error} 当格式不支持时抛出错误
+ */
+export const normalizeFormat = (format: string): FileFormat => {
+  const value = format.trim().toLowerCase();
+  const result = (value === "jsonl" ? "ndjson" : value) as FileFormat;
+  if (!FILE_FORMATS.includes(result)) {
+    throw new Error(`不支持的文件格式: ${format}，仅支持: ${FILE_FORMATS.join(", ")}`);
+  }
+  return result;
+};
+
+/**
+ * 判断文本是否包含文本文件中不应出现的控制字符，包含时视为二进制文件
+ * @param {string} text 解码后的文本
+ * @returns {boolean} 是否为二进制内容
+ */
+const isBinaryText = (text: string): boolean => {
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x20 && !TEXT_CONTROL_CHARS.has(code)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * 根据文件开头的内容识别格式
+ * 二进制文件根据文件头识别 Excel；文本文件根据首个字符识别 JSON，根据首行的分隔符识别 CSV 和 TSV
+ * 其他二进制文件和首行没有分隔符的文本文件（如 README）视为无法识别
+ * @param {Uint8Array} bytes 文件开头的字节
+ * @returns {FileFormat | null} 文件格式，无法识别时返回 null
+ */
+export const sniffFormat = (bytes: Uint8Array): FileFormat | null => {
+  // xlsx 为 ZIP 压缩包，xls 为 OLE 复合文档
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) {
+    return "xlsx";
+  }
+  if (bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0) {
+    return "xls";
+  }
+
+  // 按检测到的编码解码，UTF-16 文本中的 0 字节不会被误判为二进制；解码时会去除 BOM
+  const text = new TextDecoder(detectEncoding(bytes)).decode(bytes, { stream: true }).trimStart();
+  if (!text || isBinaryText(text)) {
+    return null;
+  }
+  if (text.startsWith("[")) {
+    return "json";
+  }
+  if (text.startsWith("{")) {
+    // 每行一个对象为 NDJSON，首行不是完整的对象时为格式化后的 JSON
+    const firstLine = text.split(/\r?\n/, 1)[0].trim();
+    try {
+      JSON.parse(firstLine);
+      return "ndjson";
+    } catch (_error) {
+      return "json";
+    }
+  }
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const tabs = firstLine.split("\t").length - 1;
+  const commas = firstLine.split(",").length - 1;
+  if (tabs === 0 && commas === 0) {
+    return null;
+  }
+  return tabs > commas ? "tsv" : "csv";
+};
+
+/**
+ * 识别文件格式
+ * @param {string} path 文件路径
+ * @param {string} [format] 指定的格式，传入时直接使用
+ * @returns {Promise<FileFormat>} 文件格式
+ * @throws {Error} 当指定的格式不支持或无法识别文件格式时抛出错误
+ */
+export const detectFileFormat = async (path: string, format?: string): Promise<FileFormat> => {
+  if (format) {
+    return normalizeFormat(format);
+  }
+  const byExtension = FORMAT_EXTENSIONS[getExtension(path)];
+  if (byExtension) {
+    return byExtension;
+  }
+
+  const result = sniffFormat(await readFileSample(path, SAMPLE_SIZE));
+  if (!result) {
+    throw new Error("无法识别文件格式");
+  }
+  return result;
+};
@@ -1,56 +1,410 @@
-import { parse } from "@std/csv";
 import { RouterContext } from "https://deno.land/x/oak@v17.1.4/router.ts";
-import xlsx from "xlsx";
 import { errorBody, successBody } from "../utils/bodyFormat.ts";
-import { mysql } from "../utils/mysql.ts"
+import { checkUploadFile, getUploadMaxSize, saveUploadFile } from "../utils/upload.ts";
+import { listDataDir } from "../utils/sandbox.ts";
+import { readCSVPage, readExcelFile, readExcelSheets, readFilePage, readFileRows } from "./parser.ts";
+import { importDataset } from "../dataset/importer.ts";
+import { validateRows } from "../dataset/validator.ts";
+import { prepareRows } from "../dataset/prepare.ts";
+import { profileColumns } from "../dataset/schema.ts";
+import type { RowData } from "./parser.ts";
+import type { ParamSchema, RequestInput } from "../utils/validation.ts";
+import {
+  fileQuery,
+  getFileName,
+  getMapping,
+  getReadOptions,
+  getSchema,
+  importQuery,
+  readOptionsQuery,
+  resolveFilePath,
+  schemaQuery,
+} from "./params.ts";
+
+/** 预览时用于推断列结构的最大行数 */
+const PREVIEW_SAMPLE_SIZE = 1000;
+
+/** 预览参数规则，只传 preview 不带值时预览 20 行 */
+const previewQuery = {
+  preview: {
+    type: "integer",
+    min: 1,
+    max: PREVIEW_SAMPLE_SIZE,
+    empty: "20",
+    description: "预览行数，传入时为预览模式，返回前 N 行数据和推断的列结构",
+  },
+} as const satisfies ParamSchema;
+
+/**
+ * 生成预览结果
+ * 使用前 PREVIEW_SAMPLE_SIZE 行推断列结构，返回前 count 行数据
+ * @param rows 行数据
+ * @param count 预览行数
+ * @param total 总行数
+ * @param extra 附加字段，如文件格式
+ */
+const previewBody = (rows: RowData[], count: number, total: number, extra: Record<string, unknown> = {}) => {
+  return successBody({
+    ...extra,
+    total,
+    rows: rows.slice(0, count),
+    columns: profileColumns(rows.slice(0, PREVIEW_SAMPLE_SIZE)),
+  });
+};
+
+/** CSV分页默认每页行数 */
+const CSV_DEFAULT_LIMIT = 1000;
+/** CSV分页最大每页行数 */
+const CSV_MAX_LIMIT = 10000;
+
+/** 分页参数规则 */
+const pageQuery = {
+  offset: { type: "integer", min: 0, default: 0, description: "起始行（从0开始）" },
+  limit: { type: "integer", min: 1, max: CSV_MAX_LIMIT, default: CSV_DEFAULT_LIMIT, description: "每页行数" },
+} as const satisfies ParamSchema;
+
+/** readFileCSV 参数规则 */
+export const readFileCSVQuery = {
+  ...fileQuery,
+  ...pageQuery,
+  ...schemaQuery,
+  ...previewQuery,
+  encoding: readOptionsQuery.encoding,
+} as const satisfies ParamSchema;
+
+/** readFile 参数规则 */
+export const readFileQuery = {
+  ...fileQuery,
+  ...readOptionsQuery,
+  ...pageQuery,
+  ...schemaQuery,
+  ...previewQuery,
+} as const satisfies ParamSchema;
+
+/** readFileExcel 参数规则 */
+export const readFileExcelQuery = {
+  ...fileQuery,
+  sheet: readOptionsQuery.sheet,
+  headerRow: readOptionsQuery.headerRow,
+  range: readOptionsQuery.range,
+  raw: readOptionsQuery.raw,
+  fillMerged: readOptionsQuery.fillMerged,
+  ...schemaQuery,
+  ...previewQuery,
+} as const satisfies ParamSchema;
+
+/** readExcelSheetList 参数规则 */
+export const readExcelSheetListQuery = fileQuery;
+
+/** listDataFiles 参数规则 */
+export const listDataFilesQuery = {
+  path: { type: "string", default: "", description: "相对于数据目录的子目录，默认为数据目录" },
+} as const satisfies ParamSchema;
+
+/** uploadFile 参数规则 */
+export const uploadFileQuery = previewQuery;
+
+/** getFileData 参数规则 */
+export const getFileDataQuery = importQuery;
 
 /**
- * 读取CSV文件
- * @param url 文件地址
+ * 分页读取CSV文件
+ * @param id 上传ID
+ * @param url 数据目录下的文件路径
+ * @param offset 起始行（从0开始），默认 0
+ * @param limit 每页行数，默认 1000，最大 10000
+ * @param encoding 文件编码，如 utf-8、gbk、gb18030，不传时自动检测
+ * @param schema 列校验规则，传入时返回有效行 valid 和无效行 invalid，唯一性只在当前页内校验
+ * @param preview 预览行数，传入时为预览模式，返回前 N 行数据和推断的列结构，默认 20
  */
-export const readFileCSV = async (ctx: RouterContext<string>) => {
-  const url = ctx.request.url.searchParams.get("url")!;
+export const readFileCSV = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof readFileCSVQuery }>,
+) => {
+  const url = await resolveFilePath(ctx, query);
   if (!url) {
-    ctx.response.body = errorBody("缺少url参数");
+    return
+  }
+  const { offset, limit, preview, encoding } = query;
+  let schema;
+  try {
+    schema = getSchema(query);
+  } catch (error) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody(error instanceof Error ? error.message : String(error), null, 400);
     return
   }
   try {
-    const file = await Deno.readTextFile(url);
-    const data = parse(file, { skipFirstRow: true });
+    if (preview) {
+      const data = await readCSVPage(url, 0, PREVIEW_SAMPLE_SIZE, encoding);
+      ctx.response.body = previewBody(data.rows, preview, data.total);
+      return
+    }
+    const data = await readCSVPage(url, offset, limit, encoding);
+    if (schema) {
+      const { rows, ...page } = data;
+      ctx.response.body = successBody({ ...page, ...validateRows(rows, schema, offset) });
+      return
+    }
     ctx.response.body = successBody(data)
-  } catch (_error) {
-    ctx.response.body = errorBody('读取文件失败');
+  } catch (error) {
+    ctx.response.body = errorBody(error instanceof Error ? `读取文件失败: ${error.message}` : '读取文件失败');
   }
 
 };
 
+/**
+ * 分页读取文件，支持 CSV、TSV、JSON、NDJSON、Excel
+ * 所有格式返回相同结构的行数据，格式按 format 参数、扩展名、文件内容的顺序识别
+ * @param id 上传ID
+ * @param url 数据目录下的文件路径
+ * @param format 文件格式 csv/tsv/json/ndjson/xlsx/xls，不传时自动识别
+ * @param encoding 文本文件编码，不传时自动检测
+ * @param offset 起始行（从0开始），默认 0
+ * @param limit 每页行数，默认 1000，最大 10000
+ * @param sheet、headerRow、range、raw、fillMerged Excel 读取配置，同 readFileExcel
+ * @param schema 列校验规则，传入时返回有效行 valid 和无效行 invalid，唯一性只在当前页内校验
+ * @param preview 预览行数，传入时为预览模式，返回前 N 行数据和推断的列结构，默认 20
+ */
+export const readFile = async (ctx: RouterContext<string>, { query }: RequestInput<{ query: typeof readFileQuery }>) => {
+  const url = await resolveFilePath(ctx, query);
+  if (!url) {
+    return
+  }
+  const { offset, limit, preview } = query;
+  const options = getReadOptions(query);
+  let schema;
+  try {
+    schema = getSchema(query);
+  } catch (error) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody(error instanceof Error ? error.message : String(error), null, 400);
+    return
+  }
+  try {
+    if (preview) {
+      const { rows, total, format } = await readFilePage(url, 0, PREVIEW_SAMPLE_SIZE, options);
+      ctx.response.body = previewBody(rows, preview, total, { format });
+      return
+    }
+    const data = await readFilePage(url, offset, limit, options);
+    if (schema) {
+      const { rows, ...page } = data;
+      ctx.response.body = successBody({ ...page, ...validateRows(rows, schema, offset) });
+      return
+    }
+    ctx.response.body = successBody(data)
+  } catch (error) {
+    ctx.response.body = errorBody(error instanceof Error ? `读取文件失败: ${error.message}` : '读取文件失败');
+  }
+};
+
 /**
  * 读取Excel文件
- * @param url 文件地址
+ * @param id 上传ID
+ * @param url 数据目录下的文件路径
+ * @param sheet 工作表名称或序号（从0开始），默认第一个工作表
+ * @param headerRow 表头所在行号（从1开始）
+ * @param range 读取的单元格区域，如 A1:F100
+ * @param raw 是否返回原始值，默认 true，为 false 时返回格式化后的文本
+ * @param fillMerged 是否填充合并单元格，默认 false
+ * @param schema 列校验规则，传入时返回有效行 valid 和无效行 invalid
+ * @param preview 预览行数，传入时为预览模式，返回前 N 行数据和推断的列结构，默认 20
+ */
+export const readFileExcel = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof readFileExcelQuery }>,
+) => {
+  const url = await resolveFilePath(ctx, query);
+  if (!url) {
+    return
+  }
+  const { preview } = query;
+  let schema;
+  try {
+    schema = getSchema(query);
+  } catch (error) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody(error instanceof Error ? error.message : String(error), null, 400);
+    return
+  }
+  try {
+    const data = readExcelFile(url, {
+      sheet: query.sheet,
+      headerRow: query.headerRow,
+      range: query.range,
+      raw: query.raw,
+      fillMerged: query.fillMerged,
+    });
+    if (preview) {
+      ctx.response.body = previewBody(data, preview, data.length);
+      return
+    }
+    ctx.response.body = successBody(schema ? validateRows(data, schema) : data);
+  } catch (error) {
+    ctx.response.body = errorBody(error instanceof Error ? `读取文件失败: ${error.message}` : '读取文件失败');
+  }
+};
+
+/**
+ * 获取Excel文件的工作表列表
+ * @param id 上传ID
+ * @param url 数据目录下的文件路径
  */
-export const readFileExcel = (ctx: RouterContext<string>) => {
-  const url = ctx.request.url.searchParams.get("url");
+export const readExcelSheetList = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof readExcelSheetListQuery }>,
+) => {
+  const url = await resolveFilePath(ctx, query);
   if (!url) {
-    ctx.response.body = errorBody("缺少url参数");
     return
   }
   try {
-    const file = xlsx.readFile(url);
-    const name = file.SheetNames[0];
-    const sheet = file.Sheets[name];
-    const data = xlsx.utils.sheet_to_json(sheet);
-    ctx.response.body = successBody(data);
+    ctx.response.body = successBody(readExcelSheets(url));
   } catch (_error) {
     ctx.response.body = errorBody('读取文件失败');
   }
 };
 
-export const getFileData = async (ctx: RouterContext<string>) => {
-  const fileName = ctx.request.url.searchParams.get("fileName");
-  if (!fileName) {
-    ctx.response.body = errorBody("缺少文件名称参数");
+/**
+ * 浏览数据目录
+ * 返回子目录和文件的名称、路径、大小、修改时间和识别的文件格式，文件路径可直接作为读取接口的 url 参数
+ * @param path 相对于数据目录的子目录，默认为数据目录
+ */
+export const listDataFiles = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof listDataFilesQuery }>,
+) => {
+  try {
+    ctx.response.body = successBody(await listDataDir(query.path));
+  } catch (error) {
+    ctx.response.body = errorBody(error instanceof Error ? error.message : "读取目录失败");
+  }
+};
+
+/**
+ * 上传CSV/TSV/JSON/NDJSON/Excel文件并解析
+ * 请求体为 multipart/form-data，文件字段名为 file，请求必须带 Content-Length 请求头，文件过大时返回 413
+ * @param preview 预览行数，传入时返回前 N 行数据和推断的列结构，不传时返回全部数据
+ */
+export const uploadFile = async (ctx: RouterContext<string>, { query }: RequestInput<{ query: typeof uploadFileQuery }>) => {
+  const body = ctx.request.body;
+  if (body.type() !== "form-data") {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody("请使用 multipart/form-data 上传文件", null, 400);
+    return
+  }
+  // 请求体会被完整读入内存，必须先根据请求头判断大小，不接受没有 Content-Length 的分块上传
+  const contentLength = ctx.request.headers.get("content-length");
+  if (!contentLength) {
+    ctx.response.status = 411;
+    ctx.response.body = errorBody("缺少Content-Length请求头", null, 411);
+    return
+  }
+  if (Number(contentLength) > getUploadMaxSize() + 1024 * 1024) {
+    ctx.response.status = 413;
+    ctx.response.body = errorBody("上传文件过大", null, 413);
+    return
+  }
+
+  let file;
+  try {
+    file = (await body.formData()).get("file");
+  } catch (_error) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody("解析上传请求失败", null, 400);
+    return
+  }
+  if (!(file instanceof File)) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody("缺少file文件", null, 400);
+    return
+  }
+  try {
+    checkUploadFile(file);
+  } catch (error) {
+    const status = file.size > getUploadMaxSize() ? 413 : 400;
+    ctx.response.status = status;
+    ctx.response.body = errorBody(error instanceof Error ? error.message : String(error), null, status);
+    return
+  }
+
+  let info;
+  try {
+    info = await saveUploadFile(file);
+  } catch (_error) {
+    ctx.response.body = errorBody("上传文件失败");
     return
   }
-  const res = await mysql.batchInsert('set_data_info',[{ 'file_name': 'test1', 'data_table': 'test' }])
-  ctx.response.body = successBody(res)
+
+  try {
+    const rows = await readFileRows(info.path);
+    const { preview } = query;
+    ctx.response.body = successBody({
+      id: info.id,
+      fileName: info.fileName,
+      size: info.size,
+      total: rows.length,
+      rows: preview ? rows.slice(0, preview) : rows,
+      ...(preview !== undefined && { columns: profileColumns(rows.slice(0, PREVIEW_SAMPLE_SIZE)) }),
+    });
+  } catch (_error) {
+    ctx.response.body = errorBody('解析文件失败');
+  }
+};
+
+/**
+ * 导入文件数据到数据库
+ * 解析文件后创建数据表并写入数据，在 set_data_info 中记录对应关系
+ * @param id 上传ID
+ * @param url 数据目录下的文件路径
+ * @param fileName 文件名称，不传时使用上传文件名或文件地址中的文件名
+ * @param format、encoding、sheet、headerRow、range、raw、fillMerged 文件读取配置，同 readFile
+ * @param mapping JSON 格式的列映射规则，入库前将源表头映射为目标列并执行转换
+ * @param mappingPreset 映射预设名称
+ * @param schema 列校验规则，存在映射规则时校验映射后的目标列，存在无效行时不导入并返回无效行
+ * @param skipInvalid 是否跳过无效行，为 true 时只导入有效行
+ */
+export const getFileData = async (ctx: RouterContext<string>, { query }: RequestInput<{ query: typeof getFileDataQuery }>) => {
+  const url = await resolveFilePath(ctx, query);
+  if (!url) {
+    return
+  }
+  const options = getReadOptions(query);
+  let mapping, schema;
+  try {
+    mapping = await getMapping(query);
+    schema = getSchema(query);
+  } catch (error) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody(error instanceof Error ? error.message : String(error), null, 400);
+    return
+  }
+  const fileName = await getFileName(query, url);
+
+  let rows;
+  try {
+    rows = await readFileRows(url, options);
+  } catch (error) {
+    ctx.response.body = errorBody(error instanceof Error ? `读取文件失败: ${error.message}` : '读取文件失败');
+    return
+  }
+
+  let invalid;
+  if (mapping || schema) {
+    const result = prepareRows(rows, { mapping, schema });
+    if (result.invalid.length > 0 && !query.skipInvalid) {
+      ctx.response.body = errorBody(`数据校验失败，共 ${result.invalid.length} 行无效`, { invalid: result.invalid });
+      return
+    }
+    rows = result.valid;
+    invalid = result.invalid;
+  }
+
+  try {
+    const res = await importDataset(fileName, rows);
+    ctx.response.body = successBody(invalid ? { ...res, invalid } : res)
+  } catch (error) {
+    ctx.response.body = errorBody(`导入数据失败: ${error instanceof Error ? error.message : String(error)}`);
+  }
 }
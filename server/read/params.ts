@@ -0,0 +1,167 @@
+/**
+ * 文件读取接口的公共请求参数
+ * 参数规则在路由上声明，由 server() 校验和转换后传给处理函数
+ */
+import { RouterContext } from "https://deno.land/x/oak@v17.1.4/router.ts";
+import { errorBody } from "../utils/bodyFormat.ts";
+import { getUploadFile } from "../utils/upload.ts";
+import { resolveDataPath } from "../utils/sandbox.ts";
+import type { InferParams, ParamSchema } from "../utils/validation.ts";
+import { type ColumnRule, parseSchema } from "../dataset/validator.ts";
+import { type MappingSpec, parseMapping } from "../dataset/mapping.ts";
+import { getMappingPreset } from "../mapping/preset.ts";
+import { FILE_FORMATS, normalizeFormat } from "./format.ts";
+import type { FileReadOptions } from "./parser.ts";
+
+/** 文件来源参数规则 */
+export const fileQuery = {
+  id: { type: "string", description: "上传ID" },
+  url: { type: "string", description: "数据目录下的文件路径" },
+} as const satisfies ParamSchema;
+
+/** 文件读取配置参数规则 */
+export const readOptionsQuery = {
+  format: {
+    type: "string",
+    enum: [...FILE_FORMATS, "jsonl"],
+    description: "文件格式，不传时根据扩展名和文件内容识别",
+  },
+  encoding: { type: "string", description: "文本文件编码，不传时自动检测" },
+  sheet: { type: "string", description: "Excel 工作表名称或序号（从0开始），默认第一个工作表" },
+  headerRow: { type: "integer", min: 1, description: "Excel 表头所在行号（从1开始）" },
+  range: { type: "string", description: "Excel 读取的单元格区域，如 A1:F100" },
+  raw: { type: "boolean", default: true, description: "Excel 是否返回原始值" },
+  fillMerged: { type: "boolean", default: false, description: "Excel 是否填充合并单元格" },
+} as const satisfies ParamSchema;
+
+/** 校验规则参数规则 */
+export const schemaQuery = {
+  schema: { type: "string", description: "JSON 格式的列校验规则数组" },
+} as const satisfies ParamSchema;
+
+/** 导入参数规则 */
+export const importQuery = {
+  ...fileQuery,
+  ...readOptionsQuery,
+  ...schemaQuery,
+  fileName: { type: "string", description: "文件名称，不传时使用上传文件名或文件地址中的文件名" },
+  mapping: { type: "string", description: "JSON 格式的列映射规则" },
+  mappingPreset: { type: "string", description: "映射预设名称，同时传入 mapping 时以 mapping 为准" },
+  skipInvalid: { type: "boolean", default: false, description: "是否跳过无效行" },
+} as const satisfies ParamSchema;
+
+/**
+ * 获取请求的文件路径
+ * 优先使用上传ID，其次使用数据目录下的文件路径
+ * @param id 上传ID
+ * @param url 数据目录下的文件路径
+ * @returns 文件路径，上传ID不存在或两个参数都没有传时返回 null
+ * @throws {Error} 当文件路径超出数据目录或文件不存在时抛出错误
+ */
+export const getFilePath = async (query: InferParams<typeof fileQuery>) => {
+  if (query.id) {
+    const info = await getUploadFile(query.id);
+    return info?.path ?? null;
+  }
+  return query.url ? await resolveDataPath(query.url) : null;
+};
+
+/**
+ * 解析请求的文件路径，失败时设置错误响应
+ * 缺少参数或路径非法时返回 400，上传ID不存在时返回 404
+ * @param ctx 路由上下文
+ * @param id 上传ID
+ * @param url 数据目录下的文件路径
+ * @returns 文件路径，解析失败时返回 null，此时处理函数直接返回即可
+ */
+export const resolveFilePath = async (
+  ctx: RouterContext<string>,
+  query: InferParams<typeof fileQuery>,
+): Promise<string | null> => {
+  if (!query.id && !query.url) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody("缺少url或id参数", null, 400);
+    return null;
+  }
+  let path;
+  try {
+    path = await getFilePath(query);
+  } catch (error) {
+    ctx.response.status = 400;
+    ctx.response.body = errorBody(error instanceof Error ? error.message : String(error), null, 400);
+    return null;
+  }
+  if (!path) {
+    ctx.response.status = 404;
+    ctx.response.body = errorBody("上传文件不存在", null, 404);
+    return null;
+  }
+  return path;
+};
+
+/**
+ * 获取请求的校验规则
+ * @param schema JSON 格式的列校验规则数组
+ * @throws {Error} 当规则格式错误时抛出错误
+ */
+export const getSchema = (query: InferParams<typeof schemaQuery>): ColumnRule[] | undefined => {
+  return query.schema ? parseSchema(query.schema) : undefined;
+};
+
+/**
+ * 获取请求的列映射规则
+ * @param mapping JSON 格式的映射规则
+ * @param mappingPreset 映射预设名称，同时传入 mapping 时以 mapping 为准
+ * @throws {Error} 当规则格式错误或预设不存在时抛出错误
+ */
+export const getMapping = async (
+  query: InferParams<Pick<typeof importQuery, "mapping" | "mappingPreset">>,
+): Promise<MappingSpec | undefined> => {
+  if (query.mapping) {
+    return parseMapping(query.mapping);
+  }
+  if (!query.mappingPreset) {
+    return undefined;
+  }
+  const preset = await getMappingPreset(query.mappingPreset);
+  if (!preset) {
+    throw new Error(`映射预设不存在: ${query.mappingPreset}`);
+  }
+  return preset.spec;
+};
+
+/**
+ * 获取请求的文件名称
+ * @param fileName 文件名称，不传时使用上传文件名或文件地址中的文件名
+ * @param id 上传ID
+ */
+export const getFileName = async (
+  query: InferParams<Pick<typeof importQuery, "id" | "fileName">>,
+  path: string,
+): Promise<string> => {
+  return query.fileName
+    || (query.id ? (await getUploadFile(query.id))?.fileName : undefined)
+    || path.slice(path.lastIndexOf("/") + 1);
+};
+
+/**
+ * 获取请求的文件读取配置
+ * @param format 文件格式 csv/tsv/json/ndjson/xlsx/xls，不传时根据扩展名和文件内容识别
+ * @param encoding 文本文件编码，不传时自动检测
+ * @param sheet Excel 工作表名称或序号（从0开始），默认第一个工作表
+ * @param headerRow Excel 表头所在行号（从1开始）
+ * @param range Excel 读取的单元格区域，如 A1:F100
+ * @param raw Excel 是否返回原始值，默认 true
+ * @param fillMerged Excel 是否填充合并单元格，默认 false
+ */
+export const getReadOptions = (query: InferParams<typeof readOptionsQuery>): FileReadOptions => {
+  return {
+    format: query.format ? normalizeFormat(query.format) : undefined,
+    encoding: query.encoding,
+    sheet: query.sheet,
+    headerRow: query.headerRow,
+    range: query.range,
+    raw: query.raw,
+    fillMerged: query.fillMerged,
+  };
+};
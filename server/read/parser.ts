@@ -0,0 +1,444 @@
+/**
+ * 文件解析工具
+ * 提供 CSV、TSV、JSON、NDJSON、Excel 文件的解析方法，供读取接口和上传接口共用
+ * 所有格式都解析为以表头为键的行对象，后续的校验、预览和入库不需要区分来源格式
+ */
+import { CsvParseStream, parse } from "@std/csv";
+import xlsx from "xlsx";
+import { resolveFileEncoding } from "./encoding.ts";
+import { detectFileFormat, type FileFormat } from "./format.ts";
+
+/** 解析后的行数据 */
+export type RowData = Record<string, unknown>;
+
+/** 分隔符文本格式对应的分隔符 */
+const SEPARATORS: Partial<Record<FileFormat, string>> = { csv: ",", tsv: "\t" };
+
+/**
+ * 解析CSV文本
+ * @param {string} text CSV文本内容
+ * @param {string} [separator=","] 分隔符
+ * @returns {RowData[]} 行数据，首行作为表头
+ */
+export const parseCSV = (text: string, separator = ","): RowData[] => {
+  return parse(text, { skipFirstRow: true, separator });
+};
+
+/**
+ * 解析TSV文本
+ * @param {string} text TSV文本内容
+ * @returns {RowData[]} 行数据，首行作为表头
+ */
+export const parseTSV = (text: string): RowData[] => {
+  return parseCSV(text, "\t");
+};
+
+/**
+ * 将 JSON 对象转换为行数据
+ * 嵌套的对象和数组转换为 JSON 字符串，使每个单元格都是基础值
+ * @param {unknown} value JSON 值
+ * @param {number} row 行号，用于错误信息
+ * @returns {RowData} 行数据
+ * @throws {Error} 当值不是对象时抛出错误
+ */
+const toRowData = (value: unknown, row: number): RowData => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`第${row}行不是JSON对象`);
+  }
+  const data: RowData = {};
+  for (const [key, cell] of Object.entries(value)) {
+    data[key] = cell !== null && typeof cell === "object" ? JSON.stringify(cell) : cell;
+  }
+  return data;
+};
+
+/**
+ * 解析JSON文本
+ * @param {string} text JSON文本内容，为对象数组，单个对象视为一行
+ * @returns {RowData[]} 行数据
+ * @throws {Error} 当内容不是合法的 JSON 或元素不是对象时抛出错误
+ */
+export const parseJSON = (text: string): RowData[] => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`JSON格式错误: ${(error as Error).message}`);
+  }
+  const list = Array.isArray(value) ? value : [value];
+  return list.map((item, index) => toRowData(item, index + 1));
+};
+
+/**
+ * 解析NDJSON文本
+ * @param {string} text NDJSON文本内容，每行一个 JSON 对象，忽略空行
+ * @returns {RowData[]} 行数据
+ * @throws {Error} 当某行不是合法的 JSON 对象时抛出错误
+ */
+export const parseNDJSON = (text: string): RowData[] => {
+  const rows: RowData[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (_error) {
+      throw new Error(`第${index + 1}行JSON格式错误`);
+    }
+    rows.push(toRowData(value, index + 1));
+  });
+  return rows;
+};
+
+/**
+ * 分页读取结果接口
+ */
+export interface PageResult {
+  /** 总行数（不含表头） */
+  total: number;
+  /** 起始行 */
+  offset: number;
+  /** 每页行数 */
+  limit: number;
+  /** 当前页行数据 */
+  rows: RowData[];
+}
+
+/**
+ * CSV分页读取结果接口
+ */
+export interface CSVPageResult extends PageResult {
+  /** 文件编码 */
+  encoding: string;
+}
+
+/** CSV文件总行数缓存的最大条目数 */
+const CSV_TOTAL_CACHE_SIZE = 100;
+
+/** CSV文件总行数缓存，文件修改时间或大小变化时失效 */
+const csvTotalCache = new Map<string, { mtime: number; size: number; total: number }>();
+
+/**
+ * Excel读取配置接口
+ */
+export interface ExcelReadOptions {
+  /** 工作表名称或序号（从0开始），默认第一个工作表 */
+  sheet?: string;
+  /** 表头所在行号（从1开始） */
+  headerRow?: number;
+  /** 读取的单元格区域，如 A1:F100 */
+  range?: string;
+  /** 是否返回原始值，为 false 时返回格式化后的文本 */
+  raw?: boolean;
+  /** 是否将合并单元格的值填充到合并区域内的所有单元格 */
+  fillMerged?: boolean;
+}
+
+/**
+ * 文件读取配置接口
+ */
+export interface FileReadOptions extends ExcelReadOptions {
+  /** 文件格式，不传时根据扩展名和文件内容识别 */
+  format?: string;
+  /** 文本文件编码，不传时自动检测 */
+  encoding?: string;
+}
+
+/**
+ * 通用分页读取结果接口
+ */
+export interface FilePageResult extends PageResult {
+  /** 文件格式 */
+  format: FileFormat;
+  /** 文本文件编码，Excel 文件没有该字段 */
+  encoding?: string;
+}
+
+/**
+ * 工作表信息接口
+ */
+export interface SheetInfo {
+  /** 工作表序号 */
+  index: number;
+  /** 工作表名称 */
+  name: string;
+  /** 工作表数据区域 */
+  range: string | null;
+  /** 行数 */
+  rows: number;
+  /** 列数 */
+  cols: number;
+}
+
+/**
+ * 补齐两位数字
+ * @param {number} value 数字
+ * @returns {string} 两位数字字符串
+ */
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+/**
+ * 将日期格式的数字单元格转换为 ISO 字符串
+ * 直接根据 Excel 序列号计算，避免时区造成的偏差
+ * @param {xlsx.WorkSheet} sheet 工作表
+ */
+const normalizeDateCells = (sheet: xlsx.WorkSheet): void => {
+  for (const key of Object.keys(sheet)) {
+    if (key.startsWith("!")) {
+      continue;
+    }
+    const cell = sheet[key] as xlsx.CellObject;
+    if (cell.t !== "n" || !cell.z || !xlsx.SSF.is_date(cell.z)) {
+      continue;
+    }
+    const date = xlsx.SSF.parse_date_code(cell.v);
+    if (!date) {
+      continue;
+    }
+    let iso = `${date.y}-${pad(date.m)}-${pad(date.d)}`;
+    if (date.H || date.M || date.S) {
+      iso += `T${pad(date.H)}:${pad(date.M)}:${pad(date.S)}`;
+    }
+    sheet[key] = { t: "s", v: iso, w: iso };
+  }
+};
+
+/**
+ * 将合并单元格左上角的值填充到合并区域内的所有单元格
+ * @param {xlsx.WorkSheet} sheet 工作表
+ */
+const fillMergedCells = (sheet: xlsx.WorkSheet): void => {
+  for (const merge of sheet["!merges"] ?? []) {
+    const origin = sheet[xlsx.utils.encode_cell(merge.s)];
+    if (!origin) {
+      continue;
+    }
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        sheet[xlsx.utils.encode_cell({ r, c })] = { ...origin };
+      }
+    }
+  }
+};
+
+/**
+ * 获取工作表名称
+ * @param {xlsx.WorkBook} workbook 工作簿
+ * @param {string} [sheet] 工作表名称或序号
+ * @returns {string} 工作表名称
+ * @throws {Error} 当工作表不存在时抛出错误
+ */
+const getSheetName = (workbook: xlsx.WorkBook, sheet?: string): string => {
+  if (!sheet) {
+    return workbook.SheetNames[0];
+  }
+  if (workbook.SheetNames.includes(sheet)) {
+    return sheet;
+  }
+  if (/^\d+$/.test(sheet) && Number(sheet) < workbook.SheetNames.length) {
+    return workbook.SheetNames[Number(sheet)];
+  }
+  throw new Error(`工作表不存在: ${sheet}`);
+};
+
+/**
+ * 解析Excel工作簿
+ * @param {xlsx.WorkBook} workbook 工作簿，读取时需开启 cellNF 以识别日期单元格
+ * @param {ExcelReadOptions} [options] 读取配置，默认读取第一个工作表
+ * @returns {RowData[]} 行数据，区域内的首行作为表头
+ * @throws {Error} 当工作表不存在时抛出错误
+ */
+export const parseExcel = (workbook: xlsx.WorkBook, options: ExcelReadOptions = {}): RowData[] => {
+  const name = getSheetName(workbook, options.sheet);
+  const sheet = workbook.Sheets[name];
+  if (!sheet["!ref"]) {
+    return [];
+  }
+
+  normalizeDateCells(sheet);
+  if (options.fillMerged) {
+    fillMergedCells(sheet);
+  }
+
+  // 根据区域和表头行确定读取范围
+  const range = xlsx.utils.decode_range(options.range || sheet["!ref"]);
+  if (options.headerRow) {
+    range.s.r = options.headerRow - 1;
+  }
+
+  return xlsx.utils.sheet_to_json<RowData>(sheet, {
+    range: xlsx.utils.encode_range(range),
+    raw: options.raw ?? true,
+  });
+};
+
+/**
+ * 获取工作簿中的工作表列表
+ * @param {xlsx.WorkBook} workbook 工作簿
+ * @returns {SheetInfo[]} 工作表信息
+ */
+export const listSheets = (workbook: xlsx.WorkBook): SheetInfo[] => {
+  return workbook.SheetNames.map((name, index) => {
+    const ref = workbook.Sheets[name]["!ref"];
+    const range = ref ? xlsx.utils.decode_range(ref) : null;
+    return {
+      index,
+      name,
+      range: ref ?? null,
+      rows: range ? range.e.r - range.s.r + 1 : 0,
+      cols: range ? range.e.c - range.s.c + 1 : 0,
+    };
+  });
+};
+
+/**
+ * 读取文本文件
+ * @param {string} path 文件路径
+ * @param {string} [encoding] 文件编码，不传时自动检测
+ * @returns {Promise<{ text: string; encoding: string }>} 文件内容和编码
+ */
+const readTextFile = async (path: string, encoding?: string): Promise<{ text: string; encoding: string }> => {
+  const fileEncoding = await resolveFileEncoding(path, encoding);
+  return { text: new TextDecoder(fileEncoding).decode(await Deno.readFile(path)), encoding: fileEncoding };
+};
+
+/**
+ * 读取CSV文件
+ * @param {string} path 文件路径
+ * @param {string} [encoding] 文件编码，不传时自动检测
+ * @param {string} [separator=","] 分隔符
+ * @returns {Promise<RowData[]>} 行数据
+ */
+export const readCSVFile = async (path: string, encoding?: string, separator = ","): Promise<RowData[]> => {
+  const { text } = await readTextFile(path, encoding);
+  return parseCSV(text, separator);
+};
+
+/**
+ * 流式分页读取CSV文件
+ * 逐行解析文件，只保留当前页的数据，内存占用与文件大小无关
+ * 已统计过总行数的文件在读取到当前页后即停止解析
+ * @param {string} path 文件路径
+ * @param {number} offset 起始行（从0开始）
+ * @param {number} limit 每页行数
+ * @param {string} [encoding] 文件编码，不传时自动检测
+ * @param {string} [separator=","] 分隔符
+ * @returns {Promise<CSVPageResult>} 分页结果
+ */
+export const readCSVPage = async (
+  path: string,
+  offset: number,
+  limit: number,
+  encoding?: string,
+  separator = ",",
+): Promise<CSVPageResult> => {
+  const fileEncoding = await resolveFileEncoding(path, encoding);
+  const cacheKey = `${fileEncoding}:${separator}:${path}`;
+  const stat = await Deno.stat(path);
+  const mtime = stat.mtime?.getTime() ?? 0;
+  const cached = csvTotalCache.get(cacheKey);
+  const knownTotal = cached && cached.mtime === mtime && cached.size === stat.size ? cached.total : null;
+
+  const file = await Deno.open(path, { read: true });
+  const stream = file.readable
+    .pipeThrough(new TextDecoderStream(fileEncoding))
+    .pipeThrough(new CsvParseStream({ skipFirstRow: true, separator }));
+
+  const rows: RowData[] = [];
+  let index = 0;
+  for await (const row of stream) {
+    if (index >= offset && rows.length < limit) {
+      rows.push(row);
+    }
+    index++;
+    // 总行数已知时读取完当前页即可停止，跳出循环会取消流并关闭文件
+    if (knownTotal !== null && index >= offset + limit) {
+      break;
+    }
+  }
+
+  const total = knownTotal ?? index;
+  if (knownTotal === null) {
+    csvTotalCache.delete(cacheKey);
+    if (csvTotalCache.size >= CSV_TOTAL_CACHE_SIZE) {
+      csvTotalCache.delete(csvTotalCache.keys().next().value!);
+    }
+    csvTotalCache.set(cacheKey, { mtime, size: stat.size, total });
+  }
+
+  return { total, offset, limit, rows, encoding: fileEncoding };
+};
+
+/**
+ * 读取Excel文件
+ * @param {string} path 文件路径
+ * @param {ExcelReadOptions} [options] 读取配置
+ * @returns {RowData[]} 行数据
+ */
+export const readExcelFile = (path: string, options?: ExcelReadOptions): RowData[] => {
+  return parseExcel(xlsx.readFile(path, { cellNF: true }), options);
+};
+
+/**
+ * 读取Excel文件的工作表列表
+ * @param {string} path 文件路径
+ * @returns {SheetInfo[]} 工作表信息
+ */
+export const readExcelSheets = (path: string): SheetInfo[] => {
+  return listSheets(xlsx.readFile(path));
+};
+
+/**
+ * 读取文件
+ * 格式按 options.format、扩展名、文件内容的顺序识别
+ * @param {string} path 文件路径
+ * @param {FileReadOptions} [options] 读取配置，Excel 配置只对 Excel 文件生效
+ * @returns {Promise<RowData[]>} 行数据
+ * @throws {Error} 当文件格式不支持或无法识别时抛出错误
+ */
+export const readFileRows = async (path: string, options: FileReadOptions = {}): Promise<RowData[]> => {
+  const format = await detectFileFormat(path, options.format);
+  switch (format) {
+    case "csv":
+    case "tsv":
+      return await readCSVFile(path, options.encoding, SEPARATORS[format]);
+    case "json":
+      return parseJSON((await readTextFile(path, options.encoding)).text);
+    case "ndjson":
+      return parseNDJSON((await readTextFile(path, options.encoding)).text);
+    default:
+      return readExcelFile(path, options);
+  }
+};
+
+/**
+ * 分页读取文件
+ * CSV、TSV 文件流式读取，其他格式读取全部数据后分页
+ * @param {string} path 文件路径
+ * @param {number} offset 起始行（从0开始）
+ * @param {number} limit 每页行数
+ * @param {FileReadOptions} [options] 读取配置
+ * @returns {Promise<FilePageResult>} 分页结果
+ * @throws {Error} 当文件格式不支持或无法识别时抛出错误
+ */
+export const readFilePage = async (
+  path: string,
+  offset: number,
+  limit: number,
+  options: FileReadOptions = {},
+): Promise<FilePageResult> => {
+  const format = await detectFileFormat(path, options.format);
+  const separator = SEPARATORS[format];
+  if (separator) {
+    return { ...await readCSVPage(path, offset, limit, options.encoding, separator), format };
+  }
+  if (format === "json" || format === "ndjson") {
+    const { text, encoding } = await readTextFile(path, options.encoding);
+    const rows = format === "json" ? parseJSON(text) : parseNDJSON(text);
+    return { total: rows.length, offset, limit, rows: rows.slice(offset, offset + limit), format, encoding };
+  }
+  const rows = readExcelFile(path, options);
+  return { total: rows.length, offset, limit, rows: rows.slice(offset, offset + limit), format };
+};
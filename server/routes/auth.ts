@@ -0,0 +1,50 @@
+import type { RouteGroup } from "../utils/routes.ts";
+import {
+  createApiKeyData,
+  createApiKeyDataBody,
+  createApiKeyDataResponse,
+  createUserData,
+  createUserDataBody,
+  getApiKeyList,
+  getCurrentUser,
+  getCurrentUserResponse,
+  getUserList,
+  login,
+  loginBody,
+  refreshToken,
+  refreshTokenBody,
+  revokeApiKeyData,
+  revokeApiKeyDataQuery,
+  tokenResponse,
+} from "../auth/index.ts";
+
+/** 登录、用户和 API Key 管理 */
+export default {
+  routes: [
+    {
+      tags: ["认证"],
+      routes: [
+        { url: "/login", method: "POST", summary: "登录", rateLimit: { limit: 10, window: 60 }, body: loginBody, response: tokenResponse, callback: login },
+        { url: "/refreshToken", method: "POST", summary: "刷新令牌", body: refreshTokenBody, response: tokenResponse, callback: refreshToken },
+        { url: "/currentUser", method: "GET", summary: "查询当前登录用户", auth: true, response: getCurrentUserResponse, callback: getCurrentUser },
+      ],
+    },
+    {
+      tags: ["用户"],
+      roles: ["admin"],
+      routes: [
+        { url: "/users", method: "GET", summary: "查询用户列表", callback: getUserList },
+        { url: "/user", method: "POST", summary: "创建用户", body: createUserDataBody, callback: createUserData },
+      ],
+    },
+    {
+      tags: ["API Key"],
+      roles: ["admin"],
+      routes: [
+        { url: "/apiKey", method: "POST", summary: "创建 API Key", body: createApiKeyDataBody, response: createApiKeyDataResponse, callback: createApiKeyData },
+        { url: "/apiKeys", method: "GET", summary: "查询 API Key 列表", callback: getApiKeyList },
+        { url: "/revokeApiKey", method: "POST", summary: "撤销 API Key", query: revokeApiKeyDataQuery, callback: revokeApiKeyData },
+      ],
+    },
+  ],
+} satisfies RouteGroup;
@@ -0,0 +1,23 @@
+import type { RouteGroup } from "../utils/routes.ts";
+import {
+  getDatasetList,
+  getDatasetListQuery,
+  getDatasetRevisions,
+  getDatasetRevisionsQuery,
+  queryDataset,
+  queryDatasetQuery,
+  reimportDatasetFile,
+  reimportDatasetFileQuery,
+} from "../dataset/index.ts";
+
+/** 数据集查询和增量导入 */
+export default {
+  tags: ["数据集"],
+  auth: true,
+  routes: [
+    { url: "/datasets", method: "GET", summary: "查询数据集列表", query: getDatasetListQuery, callback: getDatasetList },
+    { url: "/queryDataset", method: "GET", summary: "查询数据集数据", query: queryDatasetQuery, callback: queryDataset },
+    { url: "/reimportDataset", method: "POST", summary: "增量导入数据集", roles: ["importer"], query: reimportDatasetFileQuery, callback: reimportDatasetFile },
+    { url: "/datasetRevisions", method: "GET", summary: "查询数据集导入版本", query: getDatasetRevisionsQuery, callback: getDatasetRevisions },
+  ],
+} satisfies RouteGroup;
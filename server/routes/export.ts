@@ -0,0 +1,11 @@
+import type { RouteGroup } from "../utils/routes.ts";
+import { exportData, exportDataQuery, exportDataResponse } from "../export/index.ts";
+
+/** 数据导出 */
+export default {
+  tags: ["导出"],
+  roles: ["exporter"],
+  routes: [
+    { url: "/exportData", method: "GET", summary: "导出数据表或数据集", query: exportDataQuery, response: exportDataResponse, callback: exportData },
+  ],
+} satisfies RouteGroup;
@@ -0,0 +1,23 @@
+import type { RouteGroup } from "../utils/routes.ts";
+import {
+  cancelImportJob,
+  cancelImportJobQuery,
+  createImportJob,
+  createImportJobQuery,
+  getImportJob,
+  getImportJobList,
+  getImportJobListQuery,
+  getImportJobQuery,
+} from "../job/index.ts";
+
+/** 后台导入任务 */
+export default {
+  tags: ["导入任务"],
+  auth: true,
+  routes: [
+    { url: "/importJob", method: "POST", summary: "创建导入任务", roles: ["importer"], query: createImportJobQuery, callback: createImportJob },
+    { url: "/importJob", method: "GET", summary: "查询导入任务", query: getImportJobQuery, callback: getImportJob },
+    { url: "/importJobs", method: "GET", summary: "查询导入任务列表", query: getImportJobListQuery, callback: getImportJobList },
+    { url: "/cancelImportJob", method: "POST", summary: "取消导入任务", roles: ["importer"], query: cancelImportJobQuery, callback: cancelImportJob },
+  ],
+} satisfies RouteGroup;
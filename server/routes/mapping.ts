@@ -0,0 +1,22 @@
+import type { RouteGroup } from "../utils/routes.ts";
+import {
+  deleteMappingPresetData,
+  deleteMappingPresetDataQuery,
+  getMappingPresetData,
+  getMappingPresetDataQuery,
+  getMappingPresetList,
+  saveMappingPresetData,
+  saveMappingPresetDataBody,
+} from "../mapping/index.ts";
+
+/** 列映射预设 */
+export default {
+  tags: ["映射预设"],
+  auth: true,
+  routes: [
+    { url: "/mappingPreset", method: "POST", summary: "保存映射预设", roles: ["importer"], body: saveMappingPresetDataBody, callback: saveMappingPresetData },
+    { url: "/mappingPreset", method: "GET", summary: "查询映射预设", query: getMappingPresetDataQuery, callback: getMappingPresetData },
+    { url: "/mappingPresets", method: "GET", summary: "查询映射预设列表", callback: getMappingPresetList },
+    { url: "/deleteMappingPreset", method: "POST", summary: "删除映射预设", roles: ["importer"], query: deleteMappingPresetDataQuery, callback: deleteMappingPresetData },
+  ],
+} satisfies RouteGroup;
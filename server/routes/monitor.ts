@@ -0,0 +1,19 @@
+import type { RouteGroup } from "../utils/routes.ts";
+import { getLiveness, getLivenessResponse, getReadiness, getReadinessResponse } from "../health/index.ts";
+import { getMetrics, getMetricsResponse } from "../metrics/index.ts";
+
+/** 健康检查和监控指标，供编排系统和 Prometheus 调用，不限流 */
+export default {
+  tags: ["监控"],
+  rateLimit: false,
+  routes: [
+    {
+      prefix: "/health",
+      routes: [
+        { url: "/live", method: "GET", summary: "存活检查", response: getLivenessResponse, callback: getLiveness },
+        { url: "/ready", method: "GET", summary: "就绪检查", response: getReadinessResponse, callback: getReadiness },
+      ],
+    },
+    { url: "/metrics", method: "GET", summary: "Prometheus 监控指标", response: getMetricsResponse, callback: getMetrics },
+  ],
+} satisfies RouteGroup;
@@ -0,0 +1,40 @@
+import type { RouteGroup } from "../utils/routes.ts";
+import {
+  getFileData,
+  getFileDataQuery,
+  listDataFiles,
+  listDataFilesQuery,
+  readExcelSheetList,
+  readExcelSheetListQuery,
+  readFile,
+  readFileCSV,
+  readFileCSVQuery,
+  readFileExcel,
+  readFileExcelQuery,
+  readFileQuery,
+  uploadFile,
+  uploadFileQuery,
+} from "../read/index.ts";
+
+/** 文件读取、上传和导入 */
+export default {
+  tags: ["文件读取"],
+  auth: true,
+  routes: [
+    { url: "/readFile", method: "GET", summary: "分页读取文件", query: readFileQuery, callback: readFile },
+    { url: "/readFileCSV", method: "GET", summary: "分页读取 CSV 文件", query: readFileCSVQuery, callback: readFileCSV },
+    { url: "/readFileExcel", method: "GET", summary: "读取 Excel 文件", rateLimit: { limit: 30, window: 60 }, query: readFileExcelQuery, callback: readFileExcel },
+    { url: "/readExcelSheets", method: "GET", summary: "查询 Excel 工作表列表", query: readExcelSheetListQuery, callback: readExcelSheetList },
+    { url: "/files", method: "GET", summary: "查询数据目录文件列表", query: listDataFilesQuery, callback: listDataFiles },
+    { url: "/getFileData", method: "GET", summary: "导入文件数据到数据库", roles: ["importer"], query: getFileDataQuery, callback: getFileData },
+    {
+      url: "/uploadFile",
+      method: "POST",
+      summary: "上传文件并解析",
+      description: "请求体为 multipart/form-data，文件字段名为 file，请求必须带 Content-Length 请求头",
+      roles: ["importer"],
+      query: uploadFileQuery,
+      callback: uploadFile,
+    },
+  ],
+} satisfies RouteGroup;
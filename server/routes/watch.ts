@@ -0,0 +1,11 @@
+import type { RouteGroup } from "../utils/routes.ts";
+import { getWatchFileList, getWatchFileListQuery } from "../watch/index.ts";
+
+/** 监听目录文件处理记录 */
+export default {
+  tags: ["监听目录"],
+  auth: true,
+  routes: [
+    { url: "/watchFiles", method: "GET", summary: "查询监听目录文件处理记录", query: getWatchFileListQuery, callback: getWatchFileList },
+  ],
+} satisfies RouteGroup;
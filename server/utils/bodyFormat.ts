@@ -15,12 +15,14 @@ export const successBody = <T>(data: T) => {
 /**
  * 错误返回格式
  * @param message 错误信息
+ * @param data 错误详情，默认为 null
+ * @param code 错误码，默认为 500
  * @returns 
  */
-export const errorBody = (message: string) => {
+export const errorBody = <T = null>(message: string, data: T | null = null, code = 500) => {
     return {
-        code: 500,
-        data: null,
+        code: code,
+        data: data,
         status: 'error',
         message: message
     }
@@ -1,5 +1,28 @@
-import { cron } from "https://deno.land/x/deno_cron@v1.0.0/cron.ts";
+import { cron, stop } from "https://deno.land/x/deno_cron@v1.0.0/cron.ts";
 import { Logger } from "./logger.ts";
+import { metrics } from "./metrics.ts";
+
+/** 定时任务执行次数指标 */
+const cronRuns = metrics.counter({
+  name: "cron_job_runs_total",
+  help: "定时任务执行次数",
+  labelNames: ["job", "status"],
+});
+
+/** 定时任务耗时指标 */
+const cronDuration = metrics.histogram({
+  name: "cron_job_duration_seconds",
+  help: "定时任务执行耗时 单位秒",
+  labelNames: ["job"],
+  buckets: [0.1, 0.5, 1, 5, 10, 30, 60, 300, 900],
+});
+
+/** 定时任务最后成功时间指标 */
+const cronLastSuccess = metrics.gauge({
+  name: "cron_job_last_success_timestamp_seconds",
+  help: "定时任务最后一次执行成功的时间 Unix 时间戳 单位秒",
+  labelNames: ["job"],
+});
 
 /**
  * 定时任务配置接口
@@ -29,6 +52,20 @@ interface CronLogEntry {
   error?: string;
 }
 
+/**
+ * 定时任务状态接口
+ */
+export interface CronJobStatus {
+  /** 任务名称 */
+  name: string;
+  /** cron表达式 */
+  schedule: string;
+  /** 是否正在执行 */
+  running: boolean;
+  /** 最近一次执行记录，未执行过时为 null */
+  lastRun: Omit<CronLogEntry, "jobName"> | null;
+}
+
 /**
  * 定时任务管理器
  * 使用单例模式确保全局只有一个定时任务管理实例
@@ -48,6 +85,10 @@ interface CronLogEntry {
 export class CronJobManager {
   private static instance: CronJobManager;
   private jobs: Map<string, CronJobConfig>;
+  private running: Set<Promise<void>>;
+  private activeJobs: Set<string>;
+  private lastRuns: Map<string, CronLogEntry>;
+  private stopped = false;
   private logger: Logger;
 
   /**
@@ -55,6 +96,9 @@ export class CronJobManager {
    */
   private constructor() {
     this.jobs = new Map();
+    this.running = new Set();
+    this.activeJobs = new Set();
+    this.lastRuns = new Map();
     this.logger = Logger.getInstance({
       logFilePath: "./logs/cron.log"
     });
@@ -117,30 +161,53 @@ export class CronJobManager {
     this.jobs.set(config.name, config);
     await this.logger.info(`Adding new cron job: ${config.name} with schedule: ${config.schedule}`);
 
-    cron(config.schedule, async () => {
-      const startTime = new Date();
-      try {
-        await config.task();
-        const endTime = new Date();
-        await this.writeLog({
-          jobName: config.name,
-          startTime,
-          endTime,
-          status: "success",
-        });
-      } catch (error: unknown) {
-        const endTime = new Date();
-        await this.writeLog({
-          jobName: config.name,
-          startTime,
-          endTime,
-          status: "error",
-          error: error instanceof Error ? error.message : String(error),
-        });
+    cron(config.schedule, () => {
+      // 已停止或任务已移除时不再执行
+      if (this.stopped || this.jobs.get(config.name) !== config) {
+        return;
       }
+      const run = this.runJob(config);
+      this.running.add(run);
+      run.finally(() => this.running.delete(run));
     });
   }
 
+  /**
+   * 执行定时任务并记录日志
+   * @param {CronJobConfig} config - 定时任务配置
+   */
+  private async runJob(config: CronJobConfig): Promise<void> {
+    const startTime = new Date();
+    this.activeJobs.add(config.name);
+    let logEntry: CronLogEntry;
+    try {
+      await config.task();
+      logEntry = {
+        jobName: config.name,
+        startTime,
+        endTime: new Date(),
+        status: "success",
+      };
+    } catch (error: unknown) {
+      logEntry = {
+        jobName: config.name,
+        startTime,
+        endTime: new Date(),
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      this.activeJobs.delete(config.name);
+    }
+    this.lastRuns.set(config.name, logEntry);
+    cronRuns.inc({ job: config.name, status: logEntry.status });
+    cronDuration.observe({ job: config.name }, (logEntry.endTime.getTime() - startTime.getTime()) / 1000);
+    if (logEntry.status === "success") {
+      cronLastSuccess.set({ job: config.name }, logEntry.endTime.getTime() / 1000);
+    }
+    await this.writeLog(logEntry);
+  }
+
   /**
    * 移除指定的定时任务
    * @param {string} jobName - 要移除的任务名称
@@ -154,6 +221,20 @@ export class CronJobManager {
     await this.logger.info(`Removed cron job: ${jobName}`);
   }
 
+  /**
+   * 停止所有定时任务
+   * 停止调度后等待执行中的任务完成
+   * @returns {Promise<void>}
+   */
+  public async stop(): Promise<void> {
+    this.stopped = true;
+    stop();
+    if (this.running.size > 0) {
+      await this.logger.info(`Waiting for ${this.running.size} running cron job(s)`);
+    }
+    await Promise.all(this.running);
+  }
+
   /**
    * 获取所有已注册的定时任务
    * @returns {Map<string, CronJobConfig>} 任务名称到任务配置的映射
@@ -161,4 +242,21 @@ export class CronJobManager {
   public getJobs(): Map<string, CronJobConfig> {
     return new Map(this.jobs);
   }
+
+  /**
+   * 获取定时任务运行状态
+   * @returns {{ stopped: boolean; jobs: CronJobStatus[] }} 是否已停止调度和每个任务的状态
+   */
+  public getStatus(): { stopped: boolean; jobs: CronJobStatus[] } {
+    const jobs = [...this.jobs.values()].map((config) => {
+      const lastRun = this.lastRuns.get(config.name);
+      return {
+        name: config.name,
+        schedule: config.schedule,
+        running: this.activeJobs.has(config.name),
+        lastRun: lastRun ? { startTime: lastRun.startTime, endTime: lastRun.endTime, status: lastRun.status, error: lastRun.error } : null,
+      };
+    });
+    return { stopped: this.stopped, jobs };
+  }
 }
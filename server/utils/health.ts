@@ -0,0 +1,150 @@
+/**
+ * 健康检查工具
+ * 各模块注册检查项，就绪检查时并行执行所有检查项并记录耗时，关键检查项失败时服务未就绪
+ *
+ * @example
+ * ```ts
+ * healthChecker.register({
+ *   name: "redis",
+ *   critical: true,
+ *   check: async () => {
+ *     await redis.ping();
+ *   },
+ * });
+ * const report = await healthChecker.run();
+ * ```
+ */
+
+/**
+ * 健康检查项接口
+ */
+export interface HealthCheck {
+  /** 检查项名称 */
+  name: string;
+  /** 是否为关键依赖，关键依赖失败时服务未就绪 */
+  critical: boolean;
+  /** 超时时间 单位毫秒，默认 3000 */
+  timeout?: number;
+  /** 检查函数，失败时抛出错误，可以返回附加信息 */
+  check: () => Promise<Record<string, unknown> | void> | Record<string, unknown> | void;
+}
+
+/**
+ * 单个检查项结果接口
+ */
+export interface HealthCheckResult {
+  /** 检查项名称 */
+  name: string;
+  /** 检查结果 */
+  status: "up" | "down";
+  /** 是否为关键依赖 */
+  critical: boolean;
+  /** 耗时 单位毫秒 */
+  latency: number;
+  /** 失败原因 */
+  error?: string;
+  /** 附加信息 */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * 健康检查报告接口
+ */
+export interface HealthReport {
+  /** 整体状态，关键检查项失败时为 down，其他检查项失败时为 degraded */
+  status: "up" | "degraded" | "down";
+  /** 检查时间 */
+  timestamp: string;
+  /** 各检查项结果 */
+  checks: HealthCheckResult[];
+}
+
+/** 默认超时时间 单位毫秒 */
+const DEFAULT_TIMEOUT = 3000;
+
+/**
+ * 健康检查管理器
+ * 使用单例模式确保全局只有一份检查项
+ */
+export class HealthChecker {
+  private static instance: HealthChecker;
+  private checks: Map<string, HealthCheck>;
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    this.checks = new Map();
+  }
+
+  /**
+   * 获取HealthChecker的单例实例
+   * @returns {HealthChecker} HealthChecker的单例实例
+   */
+  public static getInstance(): HealthChecker {
+    if (!HealthChecker.instance) {
+      HealthChecker.instance = new HealthChecker();
+    }
+    return HealthChecker.instance;
+  }
+
+  /**
+   * 注册检查项，同名检查项会被替换
+   * @param {HealthCheck} check 检查项
+   */
+  public register(check: HealthCheck): void {
+    this.checks.set(check.name, check);
+  }
+
+  /**
+   * 移除检查项
+   * @param {string} name 检查项名称
+   */
+  public unregister(name: string): void {
+    this.checks.delete(name);
+  }
+
+  /**
+   * 并行执行所有检查项
+   * @returns {Promise<HealthReport>} 健康检查报告
+   */
+  public async run(): Promise<HealthReport> {
+    const checks = await Promise.all([...this.checks.values()].map((check) => this.runCheck(check)));
+    const failed = checks.filter((check) => check.status === "down");
+    const status = failed.some((check) => check.critical) ? "down" : failed.length > 0 ? "degraded" : "up";
+    return { status, timestamp: new Date().toISOString(), checks };
+  }
+
+  /**
+   * 执行单个检查项，超时视为失败
+   * @param {HealthCheck} check 检查项
+   * @returns {Promise<HealthCheckResult>} 检查结果
+   */
+  private async runCheck(check: HealthCheck): Promise<HealthCheckResult> {
+    const timeout = check.timeout ?? DEFAULT_TIMEOUT;
+    const startTime = performance.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const result: HealthCheckResult = { name: check.name, status: "up", critical: check.critical, latency: 0 };
+    try {
+      const details = await Promise.race([
+        Promise.resolve().then(check.check),
+        new Promise<never>((_resolve, reject) => {
+          timer = setTimeout(() => reject(new Error(`检查超时 (${timeout}ms)`)), timeout);
+        }),
+      ]);
+      if (details) {
+        result.details = details;
+      }
+    } catch (error) {
+      result.status = "down";
+      result.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      clearTimeout(timer);
+    }
+    result.latency = Math.round(performance.now() - startTime);
+    return result;
+  }
+}
+
+// 导出单例实例
+export const healthChecker = HealthChecker.getInstance();
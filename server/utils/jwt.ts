@@ -0,0 +1,155 @@
+/**
+ * JWT 工具
+ * 使用 HS256 签发和校验访问令牌、刷新令牌，密钥由 env.JWT_SECRET 指定
+ *
+ * @example
+ * ```ts
+ * const token = await signToken({ sub: 1, username: "admin", roles: ["admin"], type: "access" }, 1800);
+ * const payload = await verifyToken(token, "access");
+ * ```
+ */
+import { env } from "../config/env.ts";
+import { logger } from "./logger.ts";
+
+/** 令牌类型 */
+export type TokenType = "access" | "refresh";
+
+/**
+ * 令牌内容接口
+ */
+export interface TokenPayload {
+  /** 用户ID */
+  sub: number;
+  /** 用户名 */
+  username: string;
+  /** 角色 */
+  roles: string[];
+  /** 令牌类型 */
+  type: TokenType;
+  /** 签发时间 单位秒 */
+  iat: number;
+  /** 过期时间 单位秒 */
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let signKey: Promise<CryptoKey> | null = null;
+
+/**
+ * 检查 JWT_SECRET 配置
+ * 只有开发环境允许不配置；其他环境使用随机密钥时，重启后和多实例之间的令牌都会失效
+ * @throws {Error} 当非开发环境未配置 JWT_SECRET 时抛出错误
+ */
+export const checkJwtSecret = (): void => {
+  if (!env.JWT_SECRET && (Deno.env.get("DENO_ENV") || "development") !== "development") {
+    throw new Error("未配置 JWT_SECRET，只有开发环境可以使用随机密钥");
+  }
+};
+
+/**
+ * 获取签名密钥
+ * 开发环境未配置 JWT_SECRET 时使用随机密钥，服务重启后已签发的令牌全部失效
+ * @returns {Promise<CryptoKey>} HMAC 密钥
+ * @throws {Error} 当非开发环境未配置 JWT_SECRET 时抛出错误
+ */
+const getSignKey = (): Promise<CryptoKey> => {
+  if (!signKey) {
+    checkJwtSecret();
+    let secret = env.JWT_SECRET;
+    if (!secret) {
+      logger.warn("未配置 JWT_SECRET，使用随机密钥，服务重启后需要重新登录");
+      secret = crypto.randomUUID();
+    }
+    signKey = crypto.subtle.importKey(
+      "raw",
+      encoder.encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"],
+    );
+  }
+  return signKey;
+};
+
+/**
+ * Base64URL 编码
+ * @param {Uint8Array} bytes 字节
+ * @returns {string} Base64URL 字符串
+ */
+const encodeBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+/**
+ * Base64URL 解码
+ * @param {string} text Base64URL 字符串
+ * @returns {Uint8Array<ArrayBuffer>} 字节
+ * @throws {Error} 当字符串格式错误时抛出错误
+ */
+const decodeBase64Url = (text: string): Uint8Array<ArrayBuffer> => {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(text.length / 4) * 4, "=");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+/**
+ * 签发令牌
+ * @param {Omit<TokenPayload, "iat" | "exp">} payload 令牌内容
+ * @param {number} expiresIn 有效期 单位秒
+ * @returns {Promise<string>} JWT 字符串
+ */
+export const signToken = async (payload: Omit<TokenPayload, "iat" | "exp">, expiresIn: number): Promise<string> => {
+  const iat = Math.floor(Date.now() / 1000);
+  const header = encodeBase64Url(encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+  const body = encodeBase64Url(encoder.encode(JSON.stringify({ ...payload, iat, exp: iat + expiresIn })));
+  const signature = await crypto.subtle.sign("HMAC", await getSignKey(), encoder.encode(`${header}.${body}`));
+  return `${header}.${body}.${encodeBase64Url(new Uint8Array(signature))}`;
+};
+
+/**
+ * 校验令牌
+ * @param {string} token JWT 字符串
+ * @param {TokenType} type 期望的令牌类型
+ * @returns {Promise<TokenPayload>} 令牌内容
+ * @throws {Error} 当令牌格式错误、签名错误、类型不符或已过期时抛出错误
+ */
+export const verifyToken = async (token: string, type: TokenType): Promise<TokenPayload> => {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new Error("令牌格式错误");
+  }
+  const [header, body, signature] = parts;
+
+  let payload: TokenPayload;
+  try {
+    const { alg } = JSON.parse(decoder.decode(decodeBase64Url(header)));
+    if (alg !== "HS256") {
+      throw new Error();
+    }
+    const isValid = await crypto.subtle.verify(
+      "HMAC",
+      await getSignKey(),
+      decodeBase64Url(signature),
+      encoder.encode(`${header}.${body}`),
+    );
+    if (!isValid) {
+      throw new Error();
+    }
+    payload = JSON.parse(decoder.decode(decodeBase64Url(body)));
+  } catch (_error) {
+    throw new Error("令牌无效");
+  }
+
+  if (payload.type !== type) {
+    throw new Error("令牌类型错误");
+  }
+  if (typeof payload.exp !== "number" || payload.exp <= Date.now() / 1000) {
+    throw new Error("令牌已过期");
+  }
+  return payload;
+};
@@ -49,6 +49,7 @@ export class Logger {
   private logFilePath: string;
   private enableConsole: boolean;
   private enableTimestamp: boolean;
+  private pending: Set<Promise<void>>;
 
   /**
    * 私有构造函数，防止直接实例化
@@ -58,6 +59,7 @@ export class Logger {
     this.logFilePath = config.logFilePath;
     this.enableConsole = config.console ?? true;
     this.enableTimestamp = config.timestamp ?? true;
+    this.pending = new Set();
   }
 
   /**
@@ -147,7 +149,24 @@ export class Logger {
       }
     }
 
-    await this.writeToFile(formattedMessage);
+    // 记录未完成的写入，调用方未等待时也可以通过 flush 等待写入完成
+    const write = this.writeToFile(formattedMessage);
+    this.pending.add(write);
+    try {
+      await write;
+    } finally {
+      this.pending.delete(write);
+    }
+  }
+
+  /**
+   * 等待所有待写入的日志写入文件
+   * @returns {Promise<void>}
+   */
+  public async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
   }
 
   /**
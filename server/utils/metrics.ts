@@ -0,0 +1,344 @@
+/**
+ * 监控指标工具
+ * 提供计数器、仪表盘和直方图三种指标，以 Prometheus 文本格式输出
+ * 各模块在模块顶层注册自己的指标，同名指标重复注册时返回已注册的指标
+ *
+ * @example
+ * ```ts
+ * const exportRows = metrics.counter({
+ *   name: "export_rows_total",
+ *   help: "导出行数",
+ *   labelNames: ["format"],
+ * });
+ * exportRows.inc({ format: "csv" }, 1000);
+ *
+ * const text = await metrics.render();
+ * ```
+ */
+
+/** 标签值 */
+export type Labels = Record<string, string | number>;
+
+/** 默认直方图分桶 单位秒 */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * 指标配置接口
+ */
+export interface MetricOptions {
+  /** 指标名称，只能包含字母、数字、下划线和冒号 */
+  name: string;
+  /** 指标说明 */
+  help: string;
+  /** 标签名称 */
+  labelNames?: string[];
+}
+
+/**
+ * 转义标签值
+ * @param {string} value 标签值
+ * @returns {string} 转义后的标签值
+ */
+const escapeLabel = (value: string): string => {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+};
+
+/**
+ * 格式化数值，特殊值使用 Prometheus 的写法
+ * @param {number} value 数值
+ * @returns {string} 格式化后的数值
+ */
+const formatValue = (value: number): string => {
+  if (Number.isNaN(value)) {
+    return "NaN";
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "+Inf" : "-Inf";
+  }
+  return String(value);
+};
+
+/**
+ * 指标基类
+ * 按标签值分组保存数据
+ */
+abstract class Metric<T> {
+  public readonly name: string;
+  public readonly help: string;
+  public readonly labelNames: string[];
+  protected values = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(options: MetricOptions) {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(options.name)) {
+      throw new Error(`指标名称不合法: ${options.name}`);
+    }
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  /** Prometheus 指标类型 */
+  public abstract readonly type: "counter" | "gauge" | "histogram";
+
+  /**
+   * 生成指标数据行
+   * @returns {string[]} 指标数据行
+   */
+  public abstract lines(): string[];
+
+  /**
+   * 获取标签对应的数据，不存在时创建
+   * @param {Labels} labels 标签值
+   * @param {() => T} init 初始值
+   * @returns {{ labels: Labels; value: T }} 标签对应的数据
+   */
+  protected entry(labels: Labels, init: () => T): { labels: Labels; value: T } {
+    const unknown = Object.keys(labels).find((name) => !this.labelNames.includes(name));
+    if (unknown) {
+      throw new Error(`指标 ${this.name} 不存在标签: ${unknown}`);
+    }
+    const key = this.labelNames.map((name) => String(labels[name] ?? "")).join("\u0000");
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, value: init() };
+      this.values.set(key, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * 格式化标签
+   * @param {Labels} labels 标签值
+   * @param {Labels} [extra] 额外标签，如直方图的 le
+   * @returns {string} 如 {method="GET",status="200"}，没有标签时返回空字符串
+   */
+  protected formatLabels(labels: Labels, extra: Labels = {}): string {
+    const pairs = [...this.labelNames.map((name) => [name, labels[name] ?? ""] as const), ...Object.entries(extra)];
+    if (pairs.length === 0) {
+      return "";
+    }
+    return `{${pairs.map(([name, value]) => `${name}="${escapeLabel(String(value))}"`).join(",")}}`;
+  }
+}
+
+/**
+ * 计数器，只增不减，如请求数、错误数
+ */
+export class Counter extends Metric<number> {
+  public readonly type = "counter";
+
+  /**
+   * 增加计数
+   * @param {Labels} [labels] 标签值
+   * @param {number} [value] 增加的值，默认 1，不能为负数
+   */
+  public inc(labels: Labels = {}, value = 1): void {
+    if (value < 0) {
+      throw new Error(`计数器 ${this.name} 不能减少`);
+    }
+    this.entry(labels, () => 0).value += value;
+  }
+
+  public lines(): string[] {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${this.formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+/**
+ * 仪表盘指标配置接口
+ */
+export interface GaugeOptions extends MetricOptions {
+  /** 输出前调用，用于读取连接池使用数等当前值 */
+  collect?: (gauge: Gauge) => void | Promise<void>;
+}
+
+/**
+ * 仪表盘，可增可减，如连接数、最后成功时间
+ */
+export class Gauge extends Metric<number> {
+  public readonly type = "gauge";
+  public readonly collect?: (gauge: Gauge) => void | Promise<void>;
+
+  constructor(options: GaugeOptions) {
+    super(options);
+    this.collect = options.collect;
+  }
+
+  /**
+   * 设置当前值
+   * @param {Labels} labels 标签值
+   * @param {number} value 当前值
+   */
+  public set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  /**
+   * 增加当前值
+   * @param {Labels} [labels] 标签值
+   * @param {number} [value] 增加的值，默认 1，可以为负数
+   */
+  public inc(labels: Labels = {}, value = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  public lines(): string[] {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${this.formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+/**
+ * 直方图指标配置接口
+ */
+export interface HistogramOptions extends MetricOptions {
+  /** 分桶上限，默认 DEFAULT_BUCKETS */
+  buckets?: number[];
+}
+
+/**
+ * 直方图，统计数值的分布，如请求耗时
+ */
+export class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  public readonly type = "histogram";
+  public readonly buckets: number[];
+
+  constructor(options: HistogramOptions) {
+    super(options);
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  /**
+   * 记录一个观测值
+   * @param {Labels} labels 标签值
+   * @param {number} value 观测值，耗时的单位为秒
+   */
+  public observe(labels: Labels, value: number): void {
+    const data = this.entry(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) {
+        data.buckets[index]++;
+      }
+    });
+    data.sum += value;
+    data.count++;
+  }
+
+  public lines(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.values.values()) {
+      this.buckets.forEach((bucket, index) => {
+        lines.push(`${this.name}_bucket${this.formatLabels(labels, { le: formatValue(bucket) })} ${value.buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${this.formatLabels(labels, { le: "+Inf" })} ${value.count}`);
+      lines.push(`${this.name}_sum${this.formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${this.formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * 指标注册表
+ * 使用单例模式，所有模块的指标注册在同一个注册表中，由 /metrics 接口统一输出
+ */
+export class MetricsRegistry {
+  private static instance: MetricsRegistry;
+  private metrics: Map<string, Counter | Gauge | Histogram>;
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    this.metrics = new Map();
+  }
+
+  /**
+   * 获取MetricsRegistry的单例实例
+   * @returns {MetricsRegistry} MetricsRegistry的单例实例
+   */
+  public static getInstance(): MetricsRegistry {
+    if (!MetricsRegistry.instance) {
+      MetricsRegistry.instance = new MetricsRegistry();
+    }
+    return MetricsRegistry.instance;
+  }
+
+  /**
+   * 注册计数器
+   * @param {MetricOptions} options 指标配置
+   * @returns {Counter} 计数器
+   */
+  public counter(options: MetricOptions): Counter {
+    return this.register(options.name, Counter, () => new Counter(options));
+  }
+
+  /**
+   * 注册仪表盘
+   * @param {GaugeOptions} options 指标配置
+   * @returns {Gauge} 仪表盘
+   */
+  public gauge(options: GaugeOptions): Gauge {
+    return this.register(options.name, Gauge, () => new Gauge(options));
+  }
+
+  /**
+   * 注册直方图
+   * @param {HistogramOptions} options 指标配置
+   * @returns {Histogram} 直方图
+   */
+  public histogram(options: HistogramOptions): Histogram {
+    return this.register(options.name, Histogram, () => new Histogram(options));
+  }
+
+  /**
+   * 输出 Prometheus 文本格式
+   * 输出前调用仪表盘的 collect 读取当前值，单个 collect 失败时跳过该指标
+   * @returns {Promise<string>} Prometheus 文本格式的指标
+   */
+  public async render(): Promise<string> {
+    const blocks: string[] = [];
+    for (const metric of this.metrics.values()) {
+      if (metric instanceof Gauge && metric.collect) {
+        try {
+          await metric.collect(metric);
+        } catch (_error) {
+          continue;
+        }
+      }
+      blocks.push([
+        `# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+        ...metric.lines(),
+      ].join("\n"));
+    }
+    return blocks.length > 0 ? `${blocks.join("\n")}\n` : "";
+  }
+
+  /**
+   * 注册指标，同名同类型的指标已存在时返回已注册的指标
+   * @param {string} name 指标名称
+   * @param {Function} type 指标类型
+   * @param {() => T} create 创建指标
+   * @returns {T} 指标
+   * @throws {Error} 当同名指标的类型不同时抛出错误
+   */
+  private register<T extends Counter | Gauge | Histogram>(
+    name: string,
+    type: abstract new (...args: never[]) => T,
+    create: () => T,
+  ): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(`指标 ${name} 已注册为 ${existing.type}`);
+      }
+      return existing;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+// 导出单例实例
+export const metrics = MetricsRegistry.getInstance();
@@ -18,6 +18,42 @@
 import * as mysqlClient from "npm:mysql2@^2.3.3/promise";
 import { env } from "../config/env.ts";
 import { logger } from "./logger.ts";
+import { metrics } from "./metrics.ts";
+
+/** 连接池中的连接，transaction() 传给回调函数的事务连接 */
+export type PoolConnection = mysqlClient.PoolConnection;
+
+/** SQL 耗时指标 */
+const sqlDuration = metrics.histogram({
+  name: "mysql_query_duration_seconds",
+  help: "SQL 执行耗时 单位秒",
+  labelNames: ["statement"],
+});
+
+/** SQL 错误数指标 */
+const sqlErrors = metrics.counter({
+  name: "mysql_query_errors_total",
+  help: "SQL 执行失败次数",
+  labelNames: ["statement"],
+});
+
+/** 指标中记录的语句类型，其他语句记为 OTHER */
+const SQL_STATEMENTS = ["SELECT", "INSERT", "UPDATE", "DELETE", "REPLACE", "CREATE", "ALTER", "DROP"];
+
+/**
+ * 记录 SQL 耗时和错误数
+ * @param {string} sql SQL 语句
+ * @param {number} startTime 开始时间 单位毫秒
+ * @param {boolean} [failed] 是否执行失败
+ */
+const observeSql = (sql: string, startTime: number, failed = false): void => {
+  const keyword = sql.trim().split(/\s+/, 1)[0].toUpperCase();
+  const statement = SQL_STATEMENTS.includes(keyword) ? keyword : "OTHER";
+  sqlDuration.observe({ statement }, (Date.now() - startTime) / 1000);
+  if (failed) {
+    sqlErrors.inc({ statement });
+  }
+};
 
 /**
  * 查询参数接口
@@ -27,6 +63,81 @@ export interface QueryParams {
   [key: string]: any;
 }
 
+/**
+ * 查询条件操作符接口
+ * 在 findAll 的查询条件中使用，同一列的多个操作符之间为 AND 关系
+ *
+ * @example
+ * ```ts
+ * await db.findAll('users', {
+ *   age: { gte: 18, lt: 60 },
+ *   name: { contains: '张' },
+ *   status: { in: ['active', 'locked'] },
+ * });
+ * ```
+ */
+export interface QueryOperator {
+  /** 等于 */
+  eq?: unknown;
+  /** 不等于 */
+  ne?: unknown;
+  /** 包含（LIKE %值%） */
+  contains?: string;
+  /** 大于 */
+  gt?: unknown;
+  /** 大于等于 */
+  gte?: unknown;
+  /** 小于 */
+  lt?: unknown;
+  /** 小于等于 */
+  lte?: unknown;
+  /** 在列表中 */
+  in?: unknown[];
+}
+
+/** 查询条件操作符对应的 SQL */
+const QUERY_OPERATORS: Record<keyof QueryOperator, string> = {
+  eq: "=",
+  ne: "<>",
+  contains: "LIKE",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  in: "IN",
+};
+
+/**
+ * 判断是否为查询条件操作符对象
+ * @param {unknown} value 条件值
+ * @returns {boolean} 是否为操作符对象
+ */
+export const isQueryOperator = (value: unknown): value is QueryOperator => {
+  if (!value || typeof value !== "object" || Array.isArray(value) || value instanceof Date) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => key in QUERY_OPERATORS);
+};
+
+/**
+ * 转义 LIKE 通配符
+ * @param {string} value 值
+ * @returns {string} 转义后的值
+ */
+const escapeLike = (value: string): string => {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+};
+
+/**
+ * 转义标识符（表名、列名）
+ * @param {string} name 标识符
+ * @returns {string} 使用反引号包裹后的标识符
+ */
+export const escapeId = (name: string): string => {
+  return `\`${name.replace(/`/g, "``")}\``;
+};
+
 /**
  * MySQL 工具类
  * 提供数据库连接管理和常用的 CRUD 操作
@@ -80,7 +191,10 @@ export class MySQLUtil {
         database: env.DB_DATABASE,
         waitForConnections: true,
         connectionLimit: 10,
-        queueLimit: 0
+        queueLimit: 0,
+        // BIGINT 和 DECIMAL 统一以字符串返回，避免大整数和高精度小数被转换为 Number
+        supportBigNumbers: true,
+        bigNumberStrings: true
       });
       
       // 测试连接
@@ -89,6 +203,10 @@ export class MySQLUtil {
       this.connectionStatus = true;
       logger.info("数据库连接成功", { result });
     } catch (error) {
+      // 关闭连接失败的连接池，避免重试连接时遗留连接池
+      await this.pool?.end().catch(() => {});
+      this.pool = null;
+
       // 提供更详细的错误信息
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`数据库连接失败: ${errorMessage}`, {
@@ -135,13 +253,14 @@ export class MySQLUtil {
   public async query<T>(sql: string, params?: any[]): Promise<T> {
     await this.connect();
     
+    const startTime = Date.now();
     try {
-      const startTime = Date.now();
       logger.debug(`执行SQL查询: ${sql}`, params ? { params } : undefined);
       
       const [rows] = await this.pool.query(sql, params);
       
       const endTime = Date.now();
+      observeSql(sql, startTime);
       logger.info(`SQL查询成功 (${endTime - startTime}ms): ${sql}`, {
         params,
         rowCount: Array.isArray(rows) ? rows.length : 0,
@@ -150,6 +269,7 @@ export class MySQLUtil {
       
       return rows as T;
     } catch (error) {
+      observeSql(sql, startTime, true);
       logger.error(`SQL查询失败: ${sql}`, {
         params,
         error
@@ -162,19 +282,21 @@ export class MySQLUtil {
    * 执行 SQL 语句（插入、更新、删除）
    * @param {string} sql SQL 语句
    * @param {any[]} [params] SQL 参数
+   * @param {PoolConnection} [conn] 事务连接，不传时使用连接池
    * @returns {Promise<{ affectedRows: number; insertId?: number }>} 执行结果，包含影响行数和插入ID
    * @throws {Error} 当执行失败时抛出错误
    */
-  public async execute(sql: string, params?: any[]): Promise<{ affectedRows: number; insertId?: number }> {
+  public async execute(sql: string, params?: any[], conn?: PoolConnection): Promise<{ affectedRows: number; insertId?: number }> {
     await this.connect();
     
+    const startTime = Date.now();
     try {
-      const startTime = Date.now();
       logger.debug(`执行SQL语句: ${sql}`, params ? { params } : undefined);
       
-      const [result] = await this.pool.execute(sql, params);
+      const [result] = await (conn ?? this.pool).execute(sql, params);
       
       const endTime = Date.now();
+      observeSql(sql, startTime);
       logger.info(`SQL执行成功 (${endTime - startTime}ms): ${sql}`, {
         params,
         affectedRows: result.affectedRows,
@@ -187,6 +309,7 @@ export class MySQLUtil {
         insertId: result.insertId
       };
     } catch (error) {
+      observeSql(sql, startTime, true);
       logger.error(`SQL执行失败: ${sql}`, {
         params,
         error
@@ -195,11 +318,86 @@ export class MySQLUtil {
     }
   }
 
+  /**
+   * 流式查询
+   * 逐行读取查询结果，适用于大数据量导出等场景，遍历结束后释放连接
+   * 传入事务连接时在事务内读取，连接由事务负责释放，此时需要读取到结束后才能在该连接上执行其他语句
+   * @template T 返回数据的类型
+   * @param {string} sql SQL 查询语句
+   * @param {any[]} [params] 查询参数
+   * @param {PoolConnection} [conn] 事务连接
+   * @returns {AsyncGenerator<T>} 逐行返回的查询结果
+   * @throws {Error} 当查询执行失败时抛出错误
+   *
+   * @example
+   * ```ts
+   * for await (const row of mysql.stream<User>('SELECT * FROM users')) {
+   *   console.log(row);
+   * }
+   * ```
+   */
+  public async *stream<T>(sql: string, params?: any[], conn?: PoolConnection): AsyncGenerator<T> {
+    await this.connect();
+
+    const connection = conn ?? await this.pool.getConnection();
+    const startTime = Date.now();
+    let rowCount = 0;
+    let finished = false;
+    logger.debug(`执行流式查询: ${sql}`, params ? { params } : undefined);
+
+    try {
+      // 流式查询需要使用底层的回调风格连接
+      const rows = connection.connection.query(sql, params).stream();
+      for await (const row of rows) {
+        rowCount++;
+        yield row as T;
+      }
+      finished = true;
+
+      const endTime = Date.now();
+      observeSql(sql, startTime);
+      logger.info(`流式查询成功 (${endTime - startTime}ms): ${sql}`, {
+        params,
+        rowCount,
+        duration: endTime - startTime
+      });
+    } catch (error) {
+      observeSql(sql, startTime, true);
+      logger.error(`流式查询失败: ${sql}`, {
+        params,
+        error
+      });
+      throw error;
+    } finally {
+      // 事务连接由 transaction() 释放；中途停止读取时连接上仍有未完成的查询，不能放回连接池
+      if (!conn) {
+        if (finished) {
+          connection.release();
+        } else {
+          connection.destroy();
+        }
+      }
+    }
+  }
+
+  /**
+   * 获取数据表的列名
+   * @param {string} table 表名
+   * @returns {Promise<string[]>} 列名数组，表不存在时返回空数组
+   */
+  public async getTableColumns(table: string): Promise<string[]> {
+    const rows = await this.query<{ COLUMN_NAME: string }[]>(
+      "SELECT COLUMN_NAME FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? ORDER BY ORDINAL_POSITION",
+      [table]
+    );
+    return rows.map(row => row.COLUMN_NAME);
+  }
+
   /**
    * 查询多条记录
    * @template T 返回数据的类型
    * @param {string} table 表名
-   * @param {QueryParams} [conditions] 查询条件
+   * @param {QueryParams} [conditions] 查询条件，支持 QueryOperator 操作符
    * @param {string[]} [fields=['*']] 查询字段
    * @param {string} [orderBy] 排序条件
    * @param {number} [limit] 限制返回记录数
@@ -218,14 +416,9 @@ export class MySQLUtil {
     const params: any[] = [];
 
     // 添加条件
-    if (conditions && Object.keys(conditions).length > 0) {
-      const conditionClauses: string[] = [];
-      for (const [key, value] of Object.entries(conditions)) {
-        conditionClauses.push(`${key} = ?`);
-        params.push(value);
-      }
-      sql += ` WHERE ${conditionClauses.join(" AND ")}`;
-    }
+    const where = this.buildWhere(conditions);
+    sql += where.sql;
+    params.push(...where.params);
 
     // 添加排序
     if (orderBy) {
@@ -246,6 +439,64 @@ export class MySQLUtil {
     return await this.query<T[]>(sql, params);
   }
 
+  /**
+   * 统计记录数
+   * @param {string} table 表名
+   * @param {QueryParams} [conditions] 查询条件，支持 QueryOperator 操作符
+   * @returns {Promise<number>} 记录数
+   */
+  public async count(table: string, conditions?: QueryParams): Promise<number> {
+    const where = this.buildWhere(conditions);
+    const rows = await this.query<{ total: number }[]>(`SELECT COUNT(*) AS total FROM ${table}${where.sql}`, where.params);
+    return Number(rows[0]?.total ?? 0);
+  }
+
+  /**
+   * 构建查询条件子句
+   * 普通值按相等匹配，QueryOperator 对象按操作符匹配，null 值和 eq/ne null 转换为 IS NULL/IS NOT NULL
+   * @param {QueryParams} [conditions] 查询条件
+   * @returns {{ sql: string; params: any[] }} WHERE 子句（包含前导空格）和参数
+   * @throws {Error} 当 in 操作符的值不是非空数组时抛出错误
+   */
+  private buildWhere(conditions?: QueryParams): { sql: string; params: any[] } {
+    if (!conditions || Object.keys(conditions).length === 0) {
+      return { sql: "", params: [] };
+    }
+
+    const conditionClauses: string[] = [];
+    const params: any[] = [];
+    for (const [key, value] of Object.entries(conditions)) {
+      const column = escapeId(key);
+      if (value === null) {
+        conditionClauses.push(`${column} IS NULL`);
+        continue;
+      }
+      if (!isQueryOperator(value)) {
+        conditionClauses.push(`${column} = ?`);
+        params.push(value);
+        continue;
+      }
+      for (const [op, opValue] of Object.entries(value) as [keyof QueryOperator, any][]) {
+        if (op === "in") {
+          if (!Array.isArray(opValue) || opValue.length === 0) {
+            throw new Error(`查询条件 ${key} 的 in 值必须为非空数组`);
+          }
+          conditionClauses.push(`${column} IN (${opValue.map(() => "?").join(", ")})`);
+          params.push(...opValue);
+        } else if ((op === "eq" || op === "ne") && opValue === null) {
+          conditionClauses.push(`${column} ${op === "eq" ? "IS NULL" : "IS NOT NULL"}`);
+        } else if (op === "contains") {
+          conditionClauses.push(`${column} LIKE ?`);
+          params.push(`%${escapeLike(String(opValue))}%`);
+        } else {
+          conditionClauses.push(`${column} ${QUERY_OPERATORS[op]} ?`);
+          params.push(opValue);
+        }
+      }
+    }
+    return { sql: ` WHERE ${conditionClauses.join(" AND ")}`, params };
+  }
+
   /**
    * 查询单条记录
    * @template T 返回数据的类型
@@ -268,12 +519,14 @@ export class MySQLUtil {
    * @template T 数据类型
    * @param {string} table 表名
    * @param {QueryParams} data 要插入的数据
+   * @param {PoolConnection} [conn] 事务连接，不传时使用连接池
    * @returns {Promise<{ id: number; affectedRows: number }>} 插入结果，包含插入ID和影响行数
    * @throws {Error} 当插入数据为空时抛出错误
    */
   public async insert<T>(
     table: string,
-    data: QueryParams
+    data: QueryParams,
+    conn?: PoolConnection
   ): Promise<{ id: number; affectedRows: number }> {
     if (!data || Object.keys(data).length === 0) {
       throw new Error("插入数据不能为空");
@@ -283,9 +536,9 @@ export class MySQLUtil {
     const placeholders = columns.map(() => "?");
     const values = Object.values(data);
 
-    const sql = `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${placeholders.join(", ")})`;
+    const sql = `INSERT INTO ${table} (${columns.map(escapeId).join(", ")}) VALUES (${placeholders.join(", ")})`;
     
-    const result = await this.execute(sql, values);
+    const result = await this.execute(sql, values, conn);
     
     return {
       id: result.insertId || 0,
@@ -297,14 +550,16 @@ export class MySQLUtil {
    * 更新记录
    * @param {string} table 表名
    * @param {QueryParams} data 要更新的数据
-   * @param {QueryParams} conditions 更新条件
+   * @param {QueryParams} conditions 更新条件，支持 QueryOperator 操作符
+   * @param {PoolConnection} [conn] 事务连接，不传时使用连接池
    * @returns {Promise<{ affectedRows: number }>} 更新结果，包含影响行数
    * @throws {Error} 当更新数据或条件为空时抛出错误
    */
   public async update(
     table: string,
     data: QueryParams,
-    conditions: QueryParams
+    conditions: QueryParams,
+    conn?: PoolConnection
   ): Promise<{ affectedRows: number }> {
     if (!data || Object.keys(data).length === 0) {
       throw new Error("更新数据不能为空");
@@ -319,20 +574,17 @@ export class MySQLUtil {
 
     // 构建更新子句
     for (const [key, value] of Object.entries(data)) {
-      updateClauses.push(`${key} = ?`);
+      updateClauses.push(`${escapeId(key)} = ?`);
       params.push(value);
     }
 
     // 构建条件子句
-    const conditionClauses: string[] = [];
-    for (const [key, value] of Object.entries(conditions)) {
-      conditionClauses.push(`${key} = ?`);
-      params.push(value);
-    }
+    const where = this.buildWhere(conditions);
+    params.push(...where.params);
 
-    const sql = `UPDATE ${table} SET ${updateClauses.join(", ")} WHERE ${conditionClauses.join(" AND ")}`;
+    const sql = `UPDATE ${table} SET ${updateClauses.join(", ")}${where.sql}`;
     
-    const result = await this.execute(sql, params);
+    const result = await this.execute(sql, params, conn);
     
     return {
       affectedRows: result.affectedRows
@@ -342,30 +594,26 @@ export class MySQLUtil {
   /**
    * 删除记录
    * @param {string} table 表名
-   * @param {QueryParams} conditions 删除条件
+   * @param {QueryParams} conditions 删除条件，支持 QueryOperator 操作符
+   * @param {PoolConnection} [conn] 事务连接，不传时使用连接池
    * @returns {Promise<{ affectedRows: number }>} 删除结果，包含影响行数
    * @throws {Error} 当删除条件为空时抛出错误
    */
   public async delete(
     table: string,
-    conditions: QueryParams
+    conditions: QueryParams,
+    conn?: PoolConnection
   ): Promise<{ affectedRows: number }> {
     if (!conditions || Object.keys(conditions).length === 0) {
       throw new Error("删除条件不能为空");
     }
 
-    const conditionClauses: string[] = [];
-    const params: any[] = [];
-
     // 构建条件子句
-    for (const [key, value] of Object.entries(conditions)) {
-      conditionClauses.push(`${key} = ?`);
-      params.push(value);
-    }
+    const where = this.buildWhere(conditions);
 
-    const sql = `DELETE FROM ${table} WHERE ${conditionClauses.join(" AND ")}`;
+    const sql = `DELETE FROM ${table}${where.sql}`;
     
-    const result = await this.execute(sql, params);
+    const result = await this.execute(sql, where.params, conn);
     
     return {
       affectedRows: result.affectedRows
@@ -375,7 +623,7 @@ export class MySQLUtil {
   /**
    * 执行事务
    * @template T 返回数据的类型
-   * @param {(conn: any) => Promise<T>} callback 事务回调函数
+   * @param {(conn: PoolConnection) => Promise<T>} callback 事务回调函数
    * @returns {Promise<T>} 事务执行结果
    * @throws {Error} 当事务执行失败时抛出错误，会自动回滚
    * 
@@ -388,7 +636,7 @@ export class MySQLUtil {
    * });
    * ```
    */
-  public async transaction<T>(callback: (conn: any) => Promise<T>): Promise<T> {
+  public async transaction<T>(callback: (conn: PoolConnection) => Promise<T>): Promise<T> {
     await this.connect();
     
     const connection = await this.pool.getConnection();
@@ -417,6 +665,18 @@ export class MySQLUtil {
     }
   }
 
+  /**
+   * 检测数据库是否可用
+   * 使用已有的连接池，不重新连接，不记录查询日志，供健康检查频繁调用
+   * @throws {Error} 当未连接或数据库不可用时抛出错误
+   */
+  public async ping(): Promise<void> {
+    if (!this.pool) {
+      throw new Error("数据库未连接");
+    }
+    await this.pool.query("SELECT 1");
+  }
+
   /**
    * 获取数据库连接状态
    * @returns {boolean} 当前连接状态
@@ -425,10 +685,32 @@ export class MySQLUtil {
     return this.connectionStatus;
   }
 
+  /**
+   * 获取连接池使用情况
+   * mysql2 没有公开连接池统计，acquire/release 事件也不覆盖连接直接交给等待请求的情况，
+   * 因此读取底层连接池的内部字段 config.connectionLimit、_allConnections、_freeConnections、_connectionQueue（mysql2 2.x），
+   * 字段不存在时返回 null，升级 mysql2 时需要确认这些字段
+   * @returns {{ limit: number; total: number; idle: number; waiting: number } | null} 连接数上限、已创建连接数、空闲连接数、等待连接的请求数，未创建连接池或无法读取时返回 null
+   */
+  public getPoolStats(): { limit: number; total: number; idle: number; waiting: number } | null {
+    const pool = this.pool?.pool;
+    const queues = [pool?._allConnections, pool?._freeConnections, pool?._connectionQueue];
+    if (typeof pool?.config?.connectionLimit !== "number" || !queues.every((queue) => typeof queue?.length === "number")) {
+      return null;
+    }
+    return {
+      limit: pool.config.connectionLimit,
+      total: pool._allConnections.length,
+      idle: pool._freeConnections.length,
+      waiting: pool._connectionQueue.length,
+    };
+  }
+
   /**
    * 批量插入多条记录
    * @param {string} table 表名
    * @param {QueryParams[]} dataList 数据对象数组
+   * @param {PoolConnection} [conn] 事务连接，不传时使用连接池
    * @returns {Promise<{ affectedRows: number; insertId: number }>} 插入结果，包含影响行数和首个插入ID
    * @throws {Error} 当数据为空或数据对象的列不一致时抛出错误
    * 
@@ -443,7 +725,8 @@ export class MySQLUtil {
    */
   public async batchInsert(
     table: string,
-    dataList: QueryParams[]
+    dataList: QueryParams[],
+    conn?: PoolConnection
   ): Promise<{ affectedRows: number; insertId: number }> {
     if (!dataList || dataList.length === 0) {
       throw new Error("批量插入数据不能为空");
@@ -475,7 +758,7 @@ export class MySQLUtil {
     const placeholders = dataList.map(() => singlePlaceholder).join(", ");
     
     // 构建SQL语句
-    const sql = `INSERT INTO ${table} (${columns.join(", ")}) VALUES ${placeholders}`;
+    const sql = `INSERT INTO ${table} (${columns.map(escapeId).join(", ")}) VALUES ${placeholders}`;
     
     // 构建参数数组 [值1, 值2, ..., 值N]
     const params: any[] = [];
@@ -490,9 +773,11 @@ export class MySQLUtil {
     logger.debug(`执行批量插入: ${sql}`, { count: dataList.length });
     
     try {
-      const [result] = await this.pool.execute(sql, params);
+      await this.connect();
+      const [result] = await (conn ?? this.pool).execute(sql, params);
       
       const endTime = Date.now();
+      observeSql(sql, startTime);
       logger.info(`批量插入成功 (${endTime - startTime}ms): ${table}`, {
         count: dataList.length,
         affectedRows: result.affectedRows,
@@ -505,6 +790,7 @@ export class MySQLUtil {
         insertId: result.insertId
       };
     } catch (error) {
+      observeSql(sql, startTime, true);
       logger.error(`批量插入失败: ${table}`, {
         count: dataList.length,
         error
@@ -515,4 +801,18 @@ export class MySQLUtil {
 }
 
 // 导出单例实例
-export const mysql = MySQLUtil.getInstance(); 
\ No newline at end of file
+export const mysql = MySQLUtil.getInstance();
+
+// 连接池使用情况指标，输出指标时读取
+metrics.gauge({
+  name: "mysql_pool_connections",
+  help: "数据库连接池连接数，state 为 limit 上限、active 使用中、idle 空闲、waiting 等待连接的请求",
+  labelNames: ["state"],
+  collect: (gauge) => {
+    const stats = mysql.getPoolStats();
+    gauge.set({ state: "limit" }, stats?.limit ?? 0);
+    gauge.set({ state: "active" }, stats ? stats.total - stats.idle : 0);
+    gauge.set({ state: "idle" }, stats?.idle ?? 0);
+    gauge.set({ state: "waiting" }, stats?.waiting ?? 0);
+  },
+}); 
\ No newline at end of file
@@ -0,0 +1,310 @@
+/**
+ * 接口文档工具
+ * 根据 server() 注册的路由配置生成 OpenAPI 3 文档，查询参数、路径参数和请求体使用与参数校验相同的规则，文档始终与实际注册的接口一致
+ *
+ * @example
+ * ```ts
+ * const document = buildOpenApiDocument(routerArr, "/api");
+ * const html = swaggerUiHtml("/api/openapi.json", "/api/docs/assets");
+ * const assets = await loadSwaggerUiAssets();
+ * ```
+ */
+import getSwaggerUiDistPath from "swagger-ui-dist/absolute-path.js";
+import { env } from "../config/env.ts";
+import type { FieldSchema, ParamSchema } from "./validation.ts";
+import type { RouterItem } from "./request.ts";
+
+/**
+ * 响应规则接口
+ */
+export interface ResponseSchema {
+  /** 响应内容类型，默认 application/json，此时响应体为 successBody 格式 */
+  contentType?: string;
+  /** JSON 响应时为 data 的规则，其他内容类型时为响应体的规则 */
+  schema?: FieldSchema;
+  /** 响应说明 */
+  description?: string;
+}
+
+/** OpenAPI 对象 */
+type OpenApiObject = Record<string, unknown>;
+
+/** successBody 和 errorBody 的公共字段 */
+const bodyProperties = (status: string, code: number): Record<string, OpenApiObject> => ({
+  code: { type: "integer", example: code },
+  status: { type: "string", example: status },
+  message: { type: "string" },
+});
+
+/**
+ * 转换参数规则为 OpenAPI Schema
+ * @param {FieldSchema} field 参数规则
+ * @returns {OpenApiObject} OpenAPI Schema
+ */
+const toSchema = (field: FieldSchema): OpenApiObject => {
+  const schema: OpenApiObject = field.properties ? toObjectSchema(field.properties) : { type: field.type };
+  if (field.description) {
+    schema.description = field.description;
+  }
+  if (field.enum) {
+    schema.enum = [...field.enum];
+  }
+  if (field.default !== undefined) {
+    schema.default = field.default;
+  }
+  if (field.pattern !== undefined) {
+    schema.pattern = field.pattern;
+  }
+  // min/max 对数字、字符串和数组的含义不同
+  const [minKey, maxKey] = field.type === "string"
+    ? ["minLength", "maxLength"]
+    : field.type === "array"
+    ? ["minItems", "maxItems"]
+    : ["minimum", "maximum"];
+  if (field.min !== undefined) {
+    schema[minKey] = field.min;
+  }
+  if (field.max !== undefined) {
+    schema[maxKey] = field.max;
+  }
+  if (field.type === "array") {
+    schema.items = field.items ? toSchema(field.items) : {};
+  }
+  return schema;
+};
+
+/**
+ * 转换参数规则集合为 OpenAPI 对象 Schema
+ * @param {ParamSchema} schema 参数规则集合
+ * @returns {OpenApiObject} OpenAPI 对象 Schema
+ */
+const toObjectSchema = (schema: ParamSchema): OpenApiObject => {
+  const required = Object.keys(schema).filter((name) => schema[name].required && schema[name].default === undefined);
+  return {
+    type: "object",
+    properties: Object.fromEntries(Object.entries(schema).map(([name, field]) => [name, toSchema(field)])),
+    ...(required.length > 0 && { required }),
+  };
+};
+
+/**
+ * 转换查询参数和路径参数
+ * @param {ParamSchema | undefined} schema 参数规则集合
+ * @param {"query" | "path"} location 参数位置
+ * @returns {OpenApiObject[]} OpenAPI 参数列表
+ */
+const toParameters = (schema: ParamSchema | undefined, location: "query" | "path"): OpenApiObject[] => {
+  return Object.entries(schema ?? {}).map(([name, field]) => ({
+    name,
+    in: location,
+    // 路径参数在 OpenAPI 中必须为必填
+    required: location === "path" || (!!field.required && field.default === undefined),
+    ...(field.description && { description: field.description }),
+    ...(field.empty !== undefined && { allowEmptyValue: true }),
+    schema: toSchema({ ...field, description: undefined }),
+  }));
+};
+
+/**
+ * 生成成功响应
+ * @param {ResponseSchema} [response] 响应规则
+ * @returns {OpenApiObject} OpenAPI 响应
+ */
+const toSuccessResponse = (response: ResponseSchema = {}): OpenApiObject => {
+  const contentType = response.contentType ?? "application/json";
+  if (contentType !== "application/json") {
+    return {
+      description: response.description ?? "成功",
+      content: { [contentType]: { schema: response.schema ? toSchema(response.schema) : { type: "string", format: "binary" } } },
+    };
+  }
+  return {
+    description: response.description ?? "成功",
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: { ...bodyProperties("success", 200), data: response.schema ? toSchema(response.schema) : {} },
+        },
+      },
+    },
+  };
+};
+
+/**
+ * 生成单个接口的 OpenAPI Operation
+ * @param {RouterItem} item 路由配置
+ * @returns {OpenApiObject} OpenAPI Operation
+ */
+const toOperation = (item: RouterItem): OpenApiObject => {
+  const operation: OpenApiObject = {};
+  if (item.tags?.length) {
+    operation.tags = item.tags;
+  }
+  if (item.summary) {
+    operation.summary = item.summary;
+  }
+  const description = [
+    item.description,
+    item.roles?.length ? `需要角色：${item.roles.join("、")}（admin 可以访问所有接口）` : "",
+  ].filter(Boolean).join("\n\n");
+  if (description) {
+    operation.description = description;
+  }
+  if (item.callback.name) {
+    operation.operationId = item.callback.name;
+  }
+
+  const parameters = [...toParameters(item.params, "path"), ...toParameters(item.query, "query")];
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+  if (item.body) {
+    operation.requestBody = { required: true, content: { "application/json": { schema: toObjectSchema(item.body) } } };
+  }
+
+  const responses: OpenApiObject = { 200: toSuccessResponse(item.response) };
+  if (item.query || item.params || item.body) {
+    responses[400] = { $ref: "#/components/responses/BadRequest" };
+  }
+  if (item.auth || item.roles?.length) {
+    operation.security = [{ bearerAuth: [] }, { apiKeyAuth: [] }];
+    responses[401] = { $ref: "#/components/responses/Unauthorized" };
+  }
+  if (item.roles?.length) {
+    responses[403] = { $ref: "#/components/responses/Forbidden" };
+  }
+  if (item.rateLimit !== false && (item.rateLimit || env.RATE_LIMIT_MAX > 0)) {
+    responses[429] = { $ref: "#/components/responses/TooManyRequests" };
+  }
+  operation.responses = responses;
+  return operation;
+};
+
+/**
+ * 生成错误响应
+ * @param {string} description 响应说明
+ * @param {number} code 错误码
+ * @param {OpenApiObject} [data] 错误详情 Schema
+ * @returns {OpenApiObject} OpenAPI 响应
+ */
+const errorResponse = (description: string, code: number, data: OpenApiObject = { nullable: true }): OpenApiObject => ({
+  description,
+  content: {
+    "application/json": {
+      schema: { type: "object", properties: { ...bodyProperties("error", code), data } },
+    },
+  },
+});
+
+/**
+ * 生成 OpenAPI 3 文档
+ * @param {RouterItem[]} routes 路由配置
+ * @param {string} prefix 接口前缀
+ * @returns {OpenApiObject} OpenAPI 3 文档
+ */
+export const buildOpenApiDocument = (routes: RouterItem[], prefix: string): OpenApiObject => {
+  const paths: Record<string, Record<string, OpenApiObject>> = {};
+  for (const item of routes) {
+    // oak 路径参数 :id 对应 OpenAPI 的 {id}
+    const path = item.url.replace(/:(\w+)/g, "{$1}");
+    paths[path] = { ...paths[path], [item.method.toLowerCase()]: toOperation(item) };
+  }
+
+  const tags = [...new Set(routes.flatMap((item) => item.tags ?? []))];
+  return {
+    openapi: "3.0.3",
+    info: { title: "Deno + Vue 全栈项目接口文档", version: "1.0.0" },
+    servers: [{ url: prefix }],
+    ...(tags.length > 0 && { tags: tags.map((name) => ({ name })) }),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+        apiKeyAuth: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      responses: {
+        BadRequest: errorResponse("请求参数错误", 400, {
+          type: "object",
+          properties: {
+            errors: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  location: { type: "string", enum: ["query", "params", "body"] },
+                  field: { type: "string" },
+                  message: { type: "string" },
+                },
+              },
+            },
+          },
+        }),
+        Unauthorized: errorResponse("未登录或令牌无效", 401),
+        Forbidden: errorResponse("没有访问权限", 403),
+        TooManyRequests: errorResponse("请求过于频繁，Retry-After 秒后重试", 429),
+      },
+    },
+  };
+};
+
+/** Swagger UI 页面使用的静态资源文件名及内容类型 */
+const SWAGGER_UI_ASSETS: Record<string, string> = {
+  "swagger-ui.css": "text/css; charset=utf-8",
+  "swagger-ui-bundle.js": "text/javascript; charset=utf-8",
+};
+
+/**
+ * Swagger UI 静态资源接口
+ */
+export interface SwaggerUiAsset {
+  /** 内容类型 */
+  contentType: string;
+  /** 文件内容 */
+  body: Uint8Array;
+}
+
+/**
+ * 读取 Swagger UI 静态资源
+ * 资源来自 npm 包 swagger-ui-dist，由服务自身提供，不依赖外部 CDN
+ * @returns {Promise<Map<string, SwaggerUiAsset>>} 文件名到资源的映射
+ */
+export const loadSwaggerUiAssets = async (): Promise<Map<string, SwaggerUiAsset>> => {
+  const dir = getSwaggerUiDistPath();
+  const assets = new Map<string, SwaggerUiAsset>();
+  for (const [name, contentType] of Object.entries(SWAGGER_UI_ASSETS)) {
+    assets.set(name, { contentType, body: await Deno.readFile(`${dir}/${name}`) });
+  }
+  return assets;
+};
+
+/**
+ * 生成 Swagger UI 页面
+ * @param {string} specUrl OpenAPI 文档地址
+ * @param {string} assetsUrl Swagger UI 静态资源地址，见 loadSwaggerUiAssets
+ * @returns {string} HTML 页面
+ */
+export const swaggerUiHtml = (specUrl: string, assetsUrl: string): string => {
+  const assets = assetsUrl.replace(/\/+$/, "");
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>接口文档</title>
+  <link rel="stylesheet" href="${assets}/swagger-ui.css" />
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="${assets}/swagger-ui-bundle.js"></script>
+  <script>
+    window.ui = SwaggerUIBundle({
+      url: ${JSON.stringify(specUrl)},
+      dom_id: "#swagger-ui",
+      persistAuthorization: true,
+    });
+  </script>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,221 @@
+/**
+ * 请求限流工具
+ * 使用滑动窗口计数：按当前窗口计数加上前一个窗口按剩余时间折算的计数估算最近一个窗口内的请求数
+ * 计数可以保存在内存中（单实例），也可以保存在 MySQL 中（多实例共享限额）
+ *
+ * @example
+ * ```ts
+ * const result = await RateLimiter.getInstance().hit("ip:127.0.0.1|GET /readFileExcel", { limit: 30, window: 60 });
+ * if (!result.allowed) {
+ *   // 返回 429，result.retryAfter 秒后重试
+ * }
+ * ```
+ */
+import { env } from "../config/env.ts";
+import { mysql } from "./mysql.ts";
+import { logger } from "./logger.ts";
+
+/** 限流计数表 */
+export const RATE_LIMIT_TABLE = "set_rate_limit";
+
+/**
+ * 限流规则接口
+ */
+export interface RateLimitRule {
+  /** 窗口内允许的最大请求数 */
+  limit: number;
+  /** 窗口时长 单位秒 */
+  window: number;
+}
+
+/**
+ * 限流结果接口
+ */
+export interface RateLimitResult {
+  /** 是否允许请求 */
+  allowed: boolean;
+  /** 窗口内允许的最大请求数 */
+  limit: number;
+  /** 剩余请求数 */
+  remaining: number;
+  /** 当前窗口结束的剩余时间 单位秒 */
+  reset: number;
+  /** 被限流时建议的重试等待时间 单位秒，允许请求时为 0 */
+  retryAfter: number;
+}
+
+/**
+ * 计数存储接口
+ */
+export interface RateLimitStore {
+  /**
+   * 当前窗口计数加一，并返回当前窗口和前一个窗口的计数
+   * @param {string} key 计数键
+   * @param {number} windowStart 当前窗口开始时间 单位秒
+   * @param {number} window 窗口时长 单位秒
+   * @returns {Promise<{ current: number; previous: number }>} 加一后的当前窗口计数和前一个窗口计数
+   */
+  increment(key: string, windowStart: number, window: number): Promise<{ current: number; previous: number }>;
+}
+
+/**
+ * 内存计数存储
+ * 只在当前进程内生效，多实例部署时每个实例单独计数
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  /** 计数，键为 计数键@窗口开始时间 */
+  private counters = new Map<string, { hits: number; expiresAt: number }>();
+  private lastCleanup = 0;
+
+  public increment(key: string, windowStart: number, window: number): Promise<{ current: number; previous: number }> {
+    this.cleanup(windowStart);
+    const currentKey = `${key}@${windowStart}`;
+    const counter = this.counters.get(currentKey) ?? { hits: 0, expiresAt: windowStart + window * 2 };
+    counter.hits++;
+    this.counters.set(currentKey, counter);
+    const previous = this.counters.get(`${key}@${windowStart - window}`)?.hits ?? 0;
+    return Promise.resolve({ current: counter.hits, previous });
+  }
+
+  /**
+   * 删除过期计数，每分钟最多执行一次
+   * @param {number} now 当前时间 单位秒
+   */
+  private cleanup(now: number): void {
+    if (now - this.lastCleanup < 60) {
+      return;
+    }
+    this.lastCleanup = now;
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * MySQL 计数存储
+ * 多个实例共享 set_rate_limit 表中的计数，限额在所有实例间生效
+ */
+export class MySQLRateLimitStore implements RateLimitStore {
+  private tableReady = false;
+  private lastCleanup = 0;
+
+  /**
+   * 确保 set_rate_limit 表存在
+   */
+  private async ensureTable(): Promise<void> {
+    if (this.tableReady) {
+      return;
+    }
+    await mysql.query(`
+      CREATE TABLE IF NOT EXISTS ${RATE_LIMIT_TABLE} (
+        bucket VARCHAR(255) NOT NULL,
+        window_start BIGINT NOT NULL,
+        hits INT NOT NULL,
+        expires_at BIGINT NOT NULL,
+        PRIMARY KEY (bucket, window_start),
+        KEY idx_expires_at (expires_at)
+      )
+    `);
+    this.tableReady = true;
+  }
+
+  public async increment(key: string, windowStart: number, window: number): Promise<{ current: number; previous: number }> {
+    await this.ensureTable();
+    await this.cleanup(windowStart);
+    await mysql.execute(
+      `INSERT INTO ${RATE_LIMIT_TABLE} (bucket, window_start, hits, expires_at) VALUES (?, ?, 1, ?)
+       ON DUPLICATE KEY UPDATE hits = hits + 1`,
+      [key, windowStart, windowStart + window * 2],
+    );
+    const rows = await mysql.query<{ window_start: number; hits: number }[]>(
+      `SELECT window_start, hits FROM ${RATE_LIMIT_TABLE} WHERE bucket = ? AND window_start IN (?, ?)`,
+      [key, windowStart, windowStart - window],
+    );
+    const hits = (start: number) => Number(rows.find((row) => Number(row.window_start) === start)?.hits ?? 0);
+    return { current: hits(windowStart), previous: hits(windowStart - window) };
+  }
+
+  /**
+   * 删除过期计数，每分钟最多执行一次
+   * @param {number} now 当前时间 单位秒
+   */
+  private async cleanup(now: number): Promise<void> {
+    if (now - this.lastCleanup < 60) {
+      return;
+    }
+    this.lastCleanup = now;
+    await mysql.execute(`DELETE FROM ${RATE_LIMIT_TABLE} WHERE expires_at <= ?`, [now]);
+  }
+}
+
+/**
+ * 请求限流器
+ * 使用单例模式，计数存储由 env.RATE_LIMIT_STORE 指定
+ */
+export class RateLimiter {
+  private static instance: RateLimiter;
+  private store: RateLimitStore;
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    this.store = env.RATE_LIMIT_STORE === "mysql" ? new MySQLRateLimitStore() : new MemoryRateLimitStore();
+  }
+
+  /**
+   * 获取RateLimiter的单例实例
+   * @returns {RateLimiter} RateLimiter的单例实例
+   */
+  public static getInstance(): RateLimiter {
+    if (!RateLimiter.instance) {
+      RateLimiter.instance = new RateLimiter();
+    }
+    return RateLimiter.instance;
+  }
+
+  /**
+   * 获取全局默认限流规则
+   * @returns {RateLimitRule | null} 默认规则，RATE_LIMIT_MAX 为 0 时返回 null 表示不限流
+   */
+  public getDefaultRule(): RateLimitRule | null {
+    return env.RATE_LIMIT_MAX > 0 ? { limit: env.RATE_LIMIT_MAX, window: env.RATE_LIMIT_WINDOW } : null;
+  }
+
+  /**
+   * 记录一次请求并判断是否超出限额
+   * 计数存储不可用时放行请求，避免数据库故障导致所有接口不可用
+   * @param {string} key 计数键，如 ip:127.0.0.1|GET /readFile
+   * @param {RateLimitRule} rule 限流规则
+   * @returns {Promise<RateLimitResult>} 限流结果
+   */
+  public async hit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now() / 1000;
+    const windowStart = Math.floor(now / rule.window) * rule.window;
+    const elapsed = now - windowStart;
+    const reset = Math.ceil(rule.window - elapsed);
+
+    let counts;
+    try {
+      counts = await this.store.increment(key, windowStart, rule.window);
+    } catch (error) {
+      logger.error("限流计数失败", { error: error instanceof Error ? error.message : String(error) });
+      return { allowed: true, limit: rule.limit, remaining: rule.limit, reset, retryAfter: 0 };
+    }
+
+    const { current, previous } = counts;
+    const estimate = previous * (rule.window - elapsed) / rule.window + current;
+    if (estimate <= rule.limit) {
+      return { allowed: true, limit: rule.limit, remaining: Math.floor(rule.limit - estimate), reset, retryAfter: 0 };
+    }
+
+    // 当前窗口已超额时等到下个窗口；否则等前一个窗口的折算计数衰减到限额以内
+    const retryAfter = current >= rule.limit || previous === 0
+      ? reset
+      : Math.ceil(rule.window - (rule.limit - current) * rule.window / previous - elapsed);
+    return { allowed: false, limit: rule.limit, remaining: 0, reset, retryAfter: Math.max(1, retryAfter) };
+  }
+}
@@ -3,12 +3,52 @@
  * @module server/utils/request
  */
 
-import { Application, HTTPMethods, Middleware, Router, RouterContext, isHttpError, Status } from "https://deno.land/x/oak/mod.ts"
+import { Application, Context, HTTPMethods, Middleware, Router, RouterContext, RouterMiddleware, isHttpError, Status } from "https://deno.land/x/oak/mod.ts"
 import { errorBody } from "./bodyFormat.ts";
 import { logger } from "./logger.ts";
 import { env } from "../config/env.ts";
 import { mysql } from "./mysql.ts";
 import { frontendMiddleware } from "../middleware/frontend.ts";
+import { corsMiddleware, corsPreflight, isCorsEnabled } from "../middleware/cors.ts";
+import { type ParamSchema, type RequestInput, validateRequest } from "./validation.ts";
+import { verifyToken } from "./jwt.ts";
+import type { Role } from "../auth/user.ts";
+import { verifyApiKey } from "../auth/apiKey.ts";
+import { RateLimiter, type RateLimitRule } from "./rateLimit.ts";
+import { shutdownManager } from "./shutdown.ts";
+import { metrics } from "./metrics.ts";
+import { buildOpenApiDocument, loadSwaggerUiAssets, type ResponseSchema, swaggerUiHtml } from "./openapi.ts";
+import { findDuplicateRoutes, loadRoutes } from "./routes.ts";
+
+/** 请求数指标 */
+const httpRequests = metrics.counter({
+    name: "http_requests_total",
+    help: "HTTP 请求数",
+    labelNames: ["route", "method", "status"],
+});
+
+/** 请求耗时指标 */
+const httpDuration = metrics.histogram({
+    name: "http_request_duration_seconds",
+    help: "HTTP 请求耗时 单位秒",
+    labelNames: ["route", "method", "status"],
+});
+
+/**
+ * 登录用户接口
+ * @interface AuthUser
+ * @description 认证中间件校验访问令牌或 API Key 后保存在 ctx.state.user 中
+ */
+export interface AuthUser {
+    /** 用户ID，API Key 认证时为 API Key ID */
+    id: number;
+    /** 用户名，API Key 认证时为 API Key 名称 */
+    username: string;
+    /** 角色，API Key 认证时为权限范围 */
+    roles: Role[];
+    /** 认证方式：token 访问令牌，apiKey API Key */
+    type: "token" | "apiKey";
+}
 
 /**
  * 路由配置接口
@@ -28,15 +68,107 @@ export interface RouterItem {
      * @description HTTP 请求方法（GET, POST, PUT, DELETE 等）
      */
     method: HTTPMethods;
+    /** 
+     * 接口摘要
+     * @type {string}
+     * @description 接口文档中显示的简短说明
+     */
+    summary?: string;
+    /** 
+     * 接口说明
+     * @type {string}
+     * @description 接口文档中显示的详细说明
+     */
+    description?: string;
+    /** 
+     * 接口分组
+     * @type {string[]}
+     * @description 接口文档中按分组展示接口
+     */
+    tags?: string[];
+    /** 
+     * 查询参数规则
+     * @type {ParamSchema}
+     * @description 声明后在调用回调函数前校验并转换查询参数
+     */
+    query?: ParamSchema;
+    /** 
+     * 路径参数规则
+     * @type {ParamSchema}
+     * @description 声明后在调用回调函数前校验并转换路径参数，如 /dataset/:id 中的 id
+     */
+    params?: ParamSchema;
+    /** 
+     * 请求体规则
+     * @type {ParamSchema}
+     * @description 声明后要求请求体为 JSON 对象，并在调用回调函数前校验和转换
+     */
+    body?: ParamSchema;
+    /** 
+     * 响应规则
+     * @type {ResponseSchema}
+     * @description 只用于生成接口文档，JSON 响应时描述 successBody 中 data 的结构
+     */
+    response?: ResponseSchema;
+    /** 
+     * 是否需要登录
+     * @type {boolean}
+     * @description 为 true 时未登录的请求返回 401，默认 false
+     */
+    auth?: boolean;
+    /** 
+     * 允许访问的角色
+     * @type {Role[]}
+     * @description 声明后需要登录，且用户拥有其中任一角色，否则返回 403；admin 可以访问所有接口
+     */
+    roles?: Role[];
+    /** 
+     * 限流规则
+     * @type {RateLimitRule | false}
+     * @description 每个客户端（API Key、登录用户或 IP）在该接口上的限额，不传时使用全局默认规则，为 false 时不限流
+     */
+    rateLimit?: RateLimitRule | false;
+    /** 
+     * 中间件
+     * @type {RouterMiddleware<string>[]}
+     * @description 在登录和权限校验之后、参数校验之前按顺序执行，不调用 next 时不再执行回调函数
+     */
+    middleware?: RouterMiddleware<string>[];
     /** 
      * 回调函数
      * @type {Function}
      * @description 处理请求的控制器函数
      * @param {RouterContext<string>} ctx - Oak 路由上下文对象
+     * @param {RequestInput} input - 校验后的查询参数、路径参数和请求体
      */
-    callback: (ctx: RouterContext<string>) => void
+    callback(ctx: RouterContext<string>, input: RequestInput): void | Promise<void>
 }
 
+/**
+ * 生成日志中的 API Key 标识
+ * @function apiKeyLabel
+ * @param {AuthUser} [user] - 登录用户
+ * @returns {string} 使用 API Key 认证时返回 " | apikey:名称#ID"，否则返回空字符串
+ */
+const apiKeyLabel = (user?: AuthUser): string => {
+    return user?.type === "apiKey" ? ` | apikey:${user.username}#${user.id}` : "";
+};
+
+/**
+ * 记录请求数和耗时指标
+ * @function observeRequest
+ * @param {Context} ctx - Oak 上下文对象
+ * @param {number} status - 响应状态码
+ * @param {number} ms - 响应时间 单位毫秒
+ * @description 路由标签为注册的接口地址，避免路径参数导致标签过多；未匹配的接口请求记为 unmatched，前端请求记为 frontend
+ */
+const observeRequest = (ctx: Context, status: number, ms: number): void => {
+    const route = ctx.state.route ?? (ctx.request.url.pathname.startsWith(env.PREFIX) ? "unmatched" : "frontend");
+    const labels = { route, method: ctx.request.method, status };
+    httpRequests.inc(labels);
+    httpDuration.observe(labels, ms / 1000);
+};
+
 /**
  * 请求日志中间件
  * @type {Middleware}
@@ -48,6 +180,7 @@ const loggerMiddleware: Middleware = async (ctx, next) => {
     
     // 生成请求ID
     const requestId = crypto.randomUUID();
+    ctx.state.requestId = requestId;
     
     // 记录请求开始日志
     logger.info(`${requestId} | 请求开始 | ${request.method} ${request.url.pathname}`, {
@@ -62,18 +195,20 @@ const loggerMiddleware: Middleware = async (ctx, next) => {
         
         // 计算响应时间
         const ms = Date.now() - start;
+        observeRequest(ctx, ctx.response.status, ms);
         
         // 记录请求完成日志
-        logger.info(`${requestId} | 请求完成 | ${request.method} ${request.url.pathname} | ${ctx.response.status} | ${ms}ms`, {
+        logger.info(`${requestId}${apiKeyLabel(ctx.state.user)} | 请求完成 | ${request.method} ${request.url.pathname} | ${ctx.response.status} | ${ms}ms`, {
             status: ctx.response.status,
             responseTime: ms,
         });
     } catch (error: unknown) {
         // 计算响应时间
         const ms = Date.now() - start;
+        observeRequest(ctx, Status.InternalServerError, ms);
         
         // 记录请求错误日志
-        logger.error(`${requestId} | 请求错误 | ${request.method} ${request.url.pathname} | ${ms}ms`, {
+        logger.error(`${requestId}${apiKeyLabel(ctx.state.user)} | 请求错误 | ${request.method} ${request.url.pathname} | ${ms}ms`, {
             error: error instanceof Error ? error.message : String(error),
             stack: error instanceof Error ? error.stack : undefined,
         });
@@ -83,6 +218,117 @@ const loggerMiddleware: Middleware = async (ctx, next) => {
     }
 };
 
+/**
+ * 停机中间件
+ * @type {Middleware}
+ * @description 记录进行中的请求数供停机时等待，停机开始后新请求返回 503 并关闭连接
+ */
+const shutdownMiddleware: Middleware = async (ctx, next) => {
+    if (shutdownManager.isShuttingDown) {
+        ctx.response.status = Status.ServiceUnavailable;
+        ctx.response.headers.set("Connection", "close");
+        ctx.response.body = errorBody("服务正在停机", null, Status.ServiceUnavailable);
+        return
+    }
+    shutdownManager.requestStarted();
+    try {
+        await next();
+    } finally {
+        shutdownManager.requestFinished();
+    }
+};
+
+/**
+ * 认证中间件
+ * @type {Middleware}
+ * @description 校验请求头 X-API-Key 中的 API Key 或 Authorization: Bearer 中的访问令牌，成功时将用户保存在 ctx.state.user，失败时将原因保存在 ctx.state.authError
+ */
+const authMiddleware: Middleware = async (ctx, next) => {
+    const apiKey = ctx.request.headers.get("x-api-key");
+    const match = ctx.request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i);
+    try {
+        if (apiKey) {
+            const info = await verifyApiKey(apiKey);
+            const user: AuthUser = { id: info.id, username: info.name, roles: info.scopes, type: "apiKey" };
+            ctx.state.user = user;
+        } else if (match) {
+            const payload = await verifyToken(match[1], "access");
+            const user: AuthUser = { id: payload.sub, username: payload.username, roles: payload.roles as Role[], type: "token" };
+            ctx.state.user = user;
+        }
+    } catch (error) {
+        ctx.state.authError = error instanceof Error ? error.message : "认证失败";
+    }
+    await next();
+};
+
+/**
+ * 获取当前登录用户
+ * @function getAuthUser
+ * @param {RouterContext<string>} ctx - Oak 路由上下文对象
+ * @returns {AuthUser | null} 登录用户，未登录时返回 null
+ */
+export const getAuthUser = (ctx: RouterContext<string>): AuthUser | null => {
+    return ctx.state.user ?? null;
+};
+
+/**
+ * 校验路由权限
+ * @function checkAccess
+ * @description 未登录时返回 401，角色不符时返回 403
+ * @param {RouterContext<string>} ctx - Oak 路由上下文对象
+ * @param {RouterItem} item - 路由配置
+ * @returns {boolean} 是否允许访问，不允许时已设置响应
+ */
+const checkAccess = (ctx: RouterContext<string>, item: RouterItem): boolean => {
+    if (!item.auth && !item.roles) {
+        return true;
+    }
+    const user = getAuthUser(ctx);
+    if (!user) {
+        ctx.response.status = Status.Unauthorized;
+        ctx.response.headers.set("WWW-Authenticate", "Bearer");
+        ctx.response.body = errorBody(ctx.state.authError ?? "未登录", null, Status.Unauthorized);
+        return false;
+    }
+    if (item.roles && !user.roles.includes("admin") && !item.roles.some((role) => user.roles.includes(role))) {
+        ctx.response.status = Status.Forbidden;
+        ctx.response.body = errorBody("没有访问权限", null, Status.Forbidden);
+        return false;
+    }
+    return true;
+};
+
+/**
+ * 校验路由限流
+ * @function checkRateLimit
+ * @description 按 API Key、登录用户或 IP 分别计数，设置 X-RateLimit-* 响应头，超出限额时返回 429
+ * @param {RouterContext<string>} ctx - Oak 路由上下文对象
+ * @param {RouterItem} item - 路由配置
+ * @returns {Promise<boolean>} 是否允许访问，不允许时已设置响应
+ */
+const checkRateLimit = async (ctx: RouterContext<string>, item: RouterItem): Promise<boolean> => {
+    const limiter = RateLimiter.getInstance();
+    const rule = item.rateLimit === false ? null : item.rateLimit ?? limiter.getDefaultRule();
+    if (!rule) {
+        return true;
+    }
+    const user = getAuthUser(ctx);
+    const client = user ? `${user.type === "apiKey" ? "apikey" : "user"}:${user.id}` : `ip:${ctx.request.ip}`;
+    const result = await limiter.hit(`${client}|${item.method} ${item.url}`, rule);
+
+    ctx.response.headers.set("X-RateLimit-Limit", String(result.limit));
+    ctx.response.headers.set("X-RateLimit-Remaining", String(result.remaining));
+    ctx.response.headers.set("X-RateLimit-Reset", String(result.reset));
+    if (!result.allowed) {
+        ctx.response.status = Status.TooManyRequests;
+        ctx.response.headers.set("Retry-After", String(result.retryAfter));
+        ctx.response.body = errorBody("请求过于频繁，请稍后再试", null, Status.TooManyRequests);
+        return false;
+    }
+    return true;
+};
+
 /**
  * 全局错误拦截器中间件
  * @type {Middleware}
@@ -113,31 +359,119 @@ const errorMiddleware: Middleware = async (ctx, next) => {
  * 启动服务器
  * @async
  * @function server
- * @description 配置并启动 Oak 服务器，设置中间件、路由和错误处理
- * @param {Array<RouterItem>} route - 路由配置数组
+ * @description 加载 server/routes 目录下的路由文件，配置并启动 Oak 服务器，设置中间件、路由和错误处理
+ * @param {Array<RouterItem>} [extraRoutes] - 路由目录之外的路由配置
  * @returns {Promise<void>}
+ * @throws {Error} 当路由文件加载失败或存在重复接口时抛出错误
  */
-export const server = async (route: Array<RouterItem>) => {
+export const server = async (extraRoutes: Array<RouterItem> = []) => {
     // 获取环境变量配置
     const PORT = env.PORT;
     const HOST = env.HOST;
     const PREFIX = env.PREFIX;
 
+    // 加载路由，请求方法和路径相同的接口只会匹配第一个，启动时检测重复
+    const route = [...(await loadRoutes()), ...extraRoutes];
+    const docRoutes = env.API_DOCS
+        ? [
+            { method: "GET", url: "/openapi.json" },
+            { method: "GET", url: "/docs" },
+            { method: "GET", url: "/docs/assets/:file" },
+        ] as const
+        : [];
+    const duplicates = findDuplicateRoutes([...route, ...docRoutes]);
+    if (duplicates.length > 0) {
+        throw new Error(`接口重复: ${duplicates.join("、")}`);
+    }
+
     // 创建应用
     const router = new Router()
     const app = new Application()
 
     // 添加路由
     route.forEach(item => {
-        router.add(item.method, `${PREFIX}${item.url}`, item.callback)
+        router.add(item.method, `${PREFIX}${item.url}`, async (ctx) => {
+            ctx.state.route = `${PREFIX}${item.url}`;
+            if (!(await checkRateLimit(ctx, item)) || !checkAccess(ctx, item)) {
+                return
+            }
+            // 依次执行路由中间件，最后校验参数并调用回调函数
+            const dispatch = async (index: number): Promise<void> => {
+                const middleware = item.middleware?.[index];
+                if (middleware) {
+                    await middleware(ctx, () => dispatch(index + 1));
+                    return
+                }
+                // 校验请求参数，失败时返回 400 和每个参数的错误信息
+                const { input, errors } = await validateRequest(ctx, item);
+                if (errors.length > 0) {
+                    ctx.response.status = Status.BadRequest;
+                    ctx.response.body = errorBody("请求参数错误", { errors }, Status.BadRequest);
+                    return
+                }
+                await item.callback(ctx, input)
+            }
+            await dispatch(0)
+        })
     })
 
+    // 启用跨域时为每个接口地址注册预检请求处理
+    if (isCorsEnabled) {
+        const urlMethods = new Map<string, string[]>();
+        route.forEach(item => {
+            urlMethods.set(item.url, [...(urlMethods.get(item.url) ?? []), item.method]);
+        })
+        urlMethods.forEach((methods, url) => {
+            const preflight = corsPreflight(methods);
+            router.options(`${PREFIX}${url}`, (ctx) => {
+                ctx.state.route = `${PREFIX}${url}`;
+                preflight(ctx);
+            })
+        })
+    }
+
+    // 生成接口文档，文档只包含上面实际注册的接口
+    if (env.API_DOCS) {
+        const document = buildOpenApiDocument(route, PREFIX);
+        const html = swaggerUiHtml(`${PREFIX}/openapi.json`, `${PREFIX}/docs/assets`);
+        const assets = await loadSwaggerUiAssets();
+        router.get(`${PREFIX}/openapi.json`, (ctx) => {
+            ctx.state.route = `${PREFIX}/openapi.json`;
+            ctx.response.body = document;
+        })
+        router.get(`${PREFIX}/docs`, (ctx) => {
+            ctx.state.route = `${PREFIX}/docs`;
+            ctx.response.type = "html";
+            ctx.response.body = html;
+        })
+        router.get(`${PREFIX}/docs/assets/:file`, (ctx) => {
+            ctx.state.route = `${PREFIX}/docs/assets/:file`;
+            const asset = assets.get(ctx.params.file);
+            if (!asset) {
+                ctx.response.status = 404;
+                return;
+            }
+            ctx.response.headers.set("Content-Type", asset.contentType);
+            ctx.response.headers.set("Cache-Control", "public, max-age=86400");
+            ctx.response.body = asset.body;
+        })
+    }
+
+    // 添加停机中间件
+    app.use(shutdownMiddleware);
+
     // 添加日志中间件
     app.use(loggerMiddleware);
+
+    // 添加跨域中间件
+    app.use(corsMiddleware);
     
     // 添加全局错误处理中间件
     app.use(errorMiddleware);
 
+    // 添加认证中间件
+    app.use(authMiddleware);
+
     /** 
      * 前端代理中间件
      * @description 处理前端和 API 请求的路由分发
@@ -180,7 +514,7 @@ export const server = async (route: Array<RouterItem>) => {
     
     /** 
      * 启动应用服务器
-     * @description 在指定的主机和端口上启动 HTTP 服务器
+     * @description 在指定的主机和端口上启动 HTTP 服务器，停机时中止监听不再接收新连接
      */
-    await app.listen(`${HOST}:${PORT}`)
+    await app.listen({ hostname: HOST, port: PORT, signal: shutdownManager.signal })
 }
\ No newline at end of file
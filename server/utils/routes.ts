@@ -0,0 +1,140 @@
+/**
+ * 路由加载工具
+ * 自动加载 server/routes 目录下的路由文件，每个文件默认导出一个路由分组
+ * 分组可以嵌套，子路由继承分组的路径前缀、中间件、登录、角色、限流和文档分组配置
+ *
+ * @example
+ * ```ts
+ * // server/routes/dataset.ts
+ * export default {
+ *   prefix: "/dataset",
+ *   tags: ["数据集"],
+ *   auth: true,
+ *   routes: [
+ *     { url: "/list", method: "GET", query: listQuery, callback: list },
+ *     { url: "/reimport", method: "POST", roles: ["importer"], callback: reimport },
+ *   ],
+ * } satisfies RouteGroup;
+ * ```
+ */
+import type { RouterMiddleware } from "https://deno.land/x/oak/mod.ts";
+import type { RouterItem } from "./request.ts";
+import type { Role } from "../auth/user.ts";
+import type { RateLimitRule } from "./rateLimit.ts";
+import { logger } from "./logger.ts";
+
+/** 路由目录 */
+export const ROUTES_DIR = new URL("../routes/", import.meta.url);
+
+/**
+ * 路由分组接口
+ * 子路由和子分组未设置的配置使用分组的配置，中间件在子路由的中间件之前执行
+ */
+export interface RouteGroup {
+  /** 路径前缀，拼接在子路由地址之前，如 /health */
+  prefix?: string;
+  /** 是否需要登录 */
+  auth?: boolean;
+  /** 允许访问的角色 */
+  roles?: Role[];
+  /** 限流规则 */
+  rateLimit?: RateLimitRule | false;
+  /** 接口文档分组 */
+  tags?: string[];
+  /** 中间件，在登录和权限校验之后、参数校验之前执行 */
+  middleware?: RouterMiddleware<string>[];
+  /** 子路由和子分组 */
+  routes: Array<RouterItem | RouteGroup>;
+}
+
+/**
+ * 拼接路径，去除多余的斜杠
+ * @param {string} prefix 路径前缀
+ * @param {string} url 路由地址
+ * @returns {string} 拼接后的地址
+ */
+const joinPath = (prefix: string, url: string): string => {
+  const path = `/${prefix}/${url}`.replace(/\/{2,}/g, "/");
+  return path.length > 1 ? path.replace(/\/$/, "") : path;
+};
+
+/**
+ * 展开路由分组
+ * @param {RouteGroup} group 路由分组
+ * @param {RouteGroup} [parent] 上级分组合并后的配置
+ * @returns {RouterItem[]} 合并分组配置后的路由列表
+ */
+export const flattenRoutes = (group: RouteGroup, parent: Omit<RouteGroup, "routes"> = {}): RouterItem[] => {
+  const merged = {
+    prefix: joinPath(parent.prefix ?? "", group.prefix ?? ""),
+    auth: group.auth ?? parent.auth,
+    roles: group.roles ?? parent.roles,
+    rateLimit: group.rateLimit ?? parent.rateLimit,
+    tags: group.tags ?? parent.tags,
+    middleware: [...(parent.middleware ?? []), ...(group.middleware ?? [])],
+  };
+  return group.routes.flatMap((entry) => {
+    if ("routes" in entry) {
+      return flattenRoutes(entry, merged);
+    }
+    const item: RouterItem = {
+      ...entry,
+      url: joinPath(merged.prefix, entry.url),
+      auth: entry.auth ?? merged.auth,
+      roles: entry.roles ?? merged.roles,
+      rateLimit: entry.rateLimit ?? merged.rateLimit,
+      tags: entry.tags ?? merged.tags,
+      middleware: [...merged.middleware, ...(entry.middleware ?? [])],
+    };
+    return [item];
+  });
+};
+
+/**
+ * 加载路由目录下的所有路由文件
+ * 按文件名顺序加载 .ts 文件，以 _ 开头的文件和测试文件不加载
+ * @param {URL} [dir] 路由目录，默认 server/routes
+ * @returns {Promise<RouterItem[]>} 所有路由
+ * @throws {Error} 当路由文件没有默认导出路由分组时抛出错误
+ */
+export const loadRoutes = async (dir: URL = ROUTES_DIR): Promise<RouterItem[]> => {
+  const files: string[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    if (entry.isFile && entry.name.endsWith(".ts") && !entry.name.startsWith("_") && !/_test\.ts$/.test(entry.name)) {
+      files.push(entry.name);
+    }
+  }
+  files.sort();
+
+  const routes: RouterItem[] = [];
+  for (const file of files) {
+    const module = await import(new URL(file, dir).href);
+    const group = module.default as RouteGroup | undefined;
+    if (!group || !Array.isArray(group.routes)) {
+      throw new Error(`路由文件 ${file} 必须默认导出路由分组`);
+    }
+    const list = flattenRoutes(group);
+    logger.info(`加载路由文件: ${file}，共 ${list.length} 个接口`);
+    routes.push(...list);
+  }
+  return routes;
+};
+
+/**
+ * 查找重复的接口
+ * 请求方法相同且路径相同的接口视为重复，路径参数名不同也视为相同路径，如 /dataset/:id 和 /dataset/:name
+ * @param {Array<Pick<RouterItem, "method" | "url">>} routes 路由列表
+ * @returns {string[]} 重复的接口，如 GET /login
+ */
+export const findDuplicateRoutes = (routes: Array<Pick<RouterItem, "method" | "url">>): string[] => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const item of routes) {
+    const key = `${item.method.toUpperCase()} ${item.url.replace(/:\w+/g, ":")}`;
+    if (seen.has(key)) {
+      duplicates.add(`${item.method.toUpperCase()} ${item.url}`);
+    }
+    seen.add(key);
+  }
+  return [...duplicates];
+};
@@ -0,0 +1,166 @@
+/**
+ * 数据目录沙箱工具
+ * 用户传入的文件路径统一按 env.DATA_ROOT 解析，解析后的真实路径（含符号链接）必须位于数据目录内
+ *
+ * @example
+ * ```ts
+ * const path = await resolveDataPath("sales/2024-01.csv");
+ * const entries = await listDataDir("sales");
+ * ```
+ */
+import { env } from "../config/env.ts";
+import { detectFileFormat, type FileFormat } from "../read/format.ts";
+
+/** 系统路径分隔符，realPath 返回的路径使用系统分隔符 */
+const SEPARATOR = Deno.build.os === "windows" ? "\\" : "/";
+
+/**
+ * 数据目录条目接口
+ */
+export interface DataEntry {
+  /** 名称 */
+  name: string;
+  /** 相对于数据目录的路径 */
+  path: string;
+  /** 类型 */
+  type: "file" | "directory";
+  /** 文件大小 单位字节，目录为 0 */
+  size: number;
+  /** 修改时间 */
+  mtime: string | null;
+  /** 识别的文件格式，目录或无法识别时为 null */
+  format: FileFormat | null;
+}
+
+/**
+ * 获取数据目录的真实路径
+ * @returns {Promise<string>} 数据目录的绝对路径，不以 / 结尾
+ * @throws {Error} 当数据目录不存在时抛出错误
+ */
+const getDataRoot = async (): Promise<string> => {
+  try {
+    return await Deno.realPath(env.DATA_ROOT);
+  } catch (_error) {
+    throw new Error("数据目录不存在");
+  }
+};
+
+/**
+ * 规范化相对路径
+ * 统一分隔符，去除 . 和空段，处理 ..，超出数据目录时抛出错误
+ * @param {string} input 用户传入的路径
+ * @returns {string[]} 路径段
+ * @throws {Error} 当路径非法或超出数据目录时抛出错误
+ */
+export const normalizeSegments = (input: string): string[] => {
+  if (input.includes("\0")) {
+    throw new Error("文件路径非法");
+  }
+  const segments: string[] = [];
+  for (const segment of input.split(/[\\/]+/)) {
+    if (segment === "" || segment === ".") {
+      continue;
+    }
+    if (segment === "..") {
+      if (segments.length === 0) {
+        throw new Error("文件路径超出数据目录");
+      }
+      segments.pop();
+      continue;
+    }
+    segments.push(segment);
+  }
+  return segments;
+};
+
+/**
+ * 判断路径是否位于目录内
+ * @param {string} path 绝对路径
+ * @param {string} root 目录绝对路径
+ * @returns {boolean} 是否位于目录内或与目录相同
+ */
+const isInside = (path: string, root: string): boolean => {
+  return path === root || path.startsWith(`${root}${SEPARATOR}`);
+};
+
+/**
+ * 将用户传入的路径解析为数据目录内的真实路径
+ * 路径按数据目录的相对路径处理，以 / 开头时同样视为相对数据目录，符号链接解析后仍需位于数据目录内
+ * @param {string} input 用户传入的路径
+ * @returns {Promise<string>} 真实的绝对路径
+ * @throws {Error} 当路径非法、超出数据目录或文件不存在时抛出错误
+ */
+export const resolveDataPath = async (input: string): Promise<string> => {
+  const root = await getDataRoot();
+  const segments = normalizeSegments(input);
+  let path: string;
+  try {
+    path = await Deno.realPath([root, ...segments].join("/"));
+  } catch (_error) {
+    throw new Error("文件不存在");
+  }
+  if (!isInside(path, root)) {
+    throw new Error("文件路径超出数据目录");
+  }
+  return path;
+};
+
+/**
+ * 列出数据目录下的文件和子目录
+ * 隐藏文件和指向数据目录之外的符号链接不会返回，目录排在文件前面
+ * @param {string} [dir=""] 相对于数据目录的子目录
+ * @returns {Promise<DataEntry[]>} 目录条目
+ * @throws {Error} 当路径非法、超出数据目录或不是目录时抛出错误
+ */
+export const listDataDir = async (dir = ""): Promise<DataEntry[]> => {
+  const root = await getDataRoot();
+  const path = await resolveDataPath(dir);
+  if (!(await Deno.stat(path)).isDirectory) {
+    throw new Error("不是目录");
+  }
+  const base = path === root ? "" : path.slice(root.length + 1).split(SEPARATOR).join("/");
+
+  const entries: DataEntry[] = [];
+  for await (const entry of Deno.readDir(path)) {
+    if (entry.name.startsWith(".")) {
+      continue;
+    }
+    const relative = base ? `${base}/${entry.name}` : entry.name;
+    let realPath: string;
+    let stat: Deno.FileInfo;
+    try {
+      realPath = await Deno.realPath(`${path}/${entry.name}`);
+      stat = await Deno.stat(realPath);
+    } catch (_error) {
+      // 失效的符号链接
+      continue;
+    }
+    if (!isInside(realPath, root) || (!stat.isFile && !stat.isDirectory)) {
+      continue;
+    }
+
+    let format: FileFormat | null = null;
+    if (stat.isFile) {
+      try {
+        format = await detectFileFormat(realPath);
+      } catch (_error) {
+        // 无法识别的文件格式
+      }
+    }
+    entries.push({
+      name: entry.name,
+      path: relative,
+      type: stat.isDirectory ? "directory" : "file",
+      size: stat.isFile ? stat.size : 0,
+      mtime: stat.mtime?.toISOString() ?? null,
+      format,
+    });
+  }
+
+  return entries.sort((a, b) => {
+    if (a.type !== b.type) {
+      return a.type === "directory" ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name);
+  });
+};
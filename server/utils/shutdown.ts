@@ -0,0 +1,196 @@
+/**
+ * 优雅停机管理
+ * 收到 SIGINT/SIGTERM 后按顺序停机：停止接收新连接、等待进行中的请求、停止定时任务并等待执行中的任务、
+ * 执行各模块注册的停机钩子、写完待写入的日志、关闭数据库连接池
+ *
+ * @example
+ * ```ts
+ * shutdownManager.onShutdown("import_jobs", () => importJobManager.stop());
+ * shutdownManager.listen();
+ * ```
+ */
+import { env } from "../config/env.ts";
+import { logger } from "./logger.ts";
+import { mysql } from "./mysql.ts";
+import { CronJobManager } from "./cron.ts";
+
+/**
+ * 停机钩子接口
+ */
+interface ShutdownHook {
+  /** 钩子名称 */
+  name: string;
+  /** 钩子函数 */
+  hook: () => Promise<void> | void;
+}
+
+/**
+ * 等待 Promise 完成，超时后不再等待
+ * @param {Promise<unknown>} promise 要等待的 Promise
+ * @param {number} ms 超时时间 单位毫秒
+ * @returns {Promise<boolean>} 是否在超时前完成
+ */
+const waitFor = async (promise: Promise<unknown>, ms: number): Promise<boolean> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), ms);
+  });
+  try {
+    return await Promise.race([promise.then(() => true), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * 停机管理器
+ * 使用单例模式确保全局只有一个停机流程
+ */
+export class ShutdownManager {
+  private static instance: ShutdownManager;
+  private hooks: ShutdownHook[];
+  private controller: AbortController;
+  private inflight = 0;
+  private drained: (() => void) | null = null;
+  private shutdownPromise: Promise<void> | null = null;
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    this.hooks = [];
+    this.controller = new AbortController();
+  }
+
+  /**
+   * 获取ShutdownManager的单例实例
+   * @returns {ShutdownManager} ShutdownManager的单例实例
+   */
+  public static getInstance(): ShutdownManager {
+    if (!ShutdownManager.instance) {
+      ShutdownManager.instance = new ShutdownManager();
+    }
+    return ShutdownManager.instance;
+  }
+
+  /**
+   * 服务监听使用的中止信号，停机时中止以停止接收新连接
+   */
+  public get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * 是否正在停机
+   */
+  public get isShuttingDown(): boolean {
+    return this.shutdownPromise !== null;
+  }
+
+  /**
+   * 注册停机钩子
+   * 钩子在定时任务停止之后、数据库连接关闭之前按注册顺序执行，每个钩子最多等待 SHUTDOWN_TIMEOUT 秒
+   * @param {string} name 钩子名称，用于日志
+   * @param {() => Promise<void> | void} hook 钩子函数
+   */
+  public onShutdown(name: string, hook: () => Promise<void> | void): void {
+    this.hooks.push({ name, hook });
+  }
+
+  /**
+   * 记录请求开始
+   */
+  public requestStarted(): void {
+    this.inflight++;
+  }
+
+  /**
+   * 记录请求结束
+   */
+  public requestFinished(): void {
+    this.inflight--;
+    if (this.inflight === 0 && this.drained) {
+      this.drained();
+    }
+  }
+
+  /**
+   * 监听停机信号
+   * 第一次收到信号时开始优雅停机，再次收到信号时立即退出
+   */
+  public listen(): void {
+    const signals: Deno.Signal[] = Deno.build.os === "windows" ? ["SIGINT"] : ["SIGINT", "SIGTERM"];
+    for (const signal of signals) {
+      Deno.addSignalListener(signal, () => {
+        if (this.isShuttingDown) {
+          logger.warn(`再次收到 ${signal}，立即退出`);
+          Deno.exit(1);
+        }
+        this.shutdown(signal).finally(() => Deno.exit(0));
+      });
+    }
+  }
+
+  /**
+   * 执行停机流程
+   * 重复调用时返回同一个停机流程
+   * @param {string} reason 停机原因，用于日志
+   * @returns {Promise<void>}
+   */
+  public shutdown(reason: string): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.run(reason);
+    }
+    return this.shutdownPromise;
+  }
+
+  /**
+   * 按顺序执行停机步骤，单个步骤失败不影响后续步骤
+   * @param {string} reason 停机原因
+   */
+  private async run(reason: string): Promise<void> {
+    const timeout = env.SHUTDOWN_TIMEOUT * 1000;
+    logger.info(`开始停机: ${reason}`, { inflight: this.inflight, timeout: env.SHUTDOWN_TIMEOUT });
+
+    // 1. 停止接收新连接
+    this.controller.abort();
+
+    // 2. 等待进行中的请求
+    if (this.inflight > 0) {
+      const drained = new Promise<void>((resolve) => {
+        this.drained = resolve;
+      });
+      if (!(await waitFor(drained, timeout))) {
+        logger.warn(`等待请求超时，仍有 ${this.inflight} 个请求未完成`);
+      }
+    }
+
+    // 3. 停止定时任务并等待执行中的任务
+    if (!(await waitFor(CronJobManager.getInstance().stop(), timeout))) {
+      logger.warn("等待定时任务超时");
+    }
+
+    // 4. 执行停机钩子
+    for (const { name, hook } of this.hooks) {
+      try {
+        if (!(await waitFor(Promise.resolve(hook()), timeout))) {
+          logger.warn(`停机钩子执行超时: ${name}`);
+        }
+      } catch (error) {
+        logger.error(`停机钩子执行失败: ${name}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    // 5. 写完待写入的日志，6. 关闭数据库连接池
+    logger.info("停机完成");
+    await logger.flush();
+    await mysql.close();
+    // 关闭连接池时记录的日志
+    await logger.flush();
+  }
+}
+
+// 导出单例实例
+export const shutdownManager = ShutdownManager.getInstance();
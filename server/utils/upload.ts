@@ -0,0 +1,129 @@
+/**
+ * 上传文件管理工具
+ * 负责上传文件的校验、保存和查找，文件统一保存在 env.UPLOAD_DIR 目录下
+ *
+ * @example
+ * ```ts
+ * const info = await saveUploadFile(file);
+ * const saved = await getUploadFile(info.id);
+ * ```
+ */
+import { env } from "../config/env.ts";
+import { logger } from "./logger.ts";
+
+/** 允许上传的文件扩展名 */
+export const UPLOAD_EXTENSIONS = [".csv", ".tsv", ".tab", ".json", ".ndjson", ".jsonl", ".xlsx", ".xls"];
+
+/** 上传ID格式（UUID） */
+const UPLOAD_ID_REG = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * 上传文件信息接口
+ */
+export interface UploadInfo {
+  /** 上传ID */
+  id: string;
+  /** 原始文件名 */
+  fileName: string;
+  /** 文件扩展名 */
+  ext: string;
+  /** 文件大小 单位字节 */
+  size: number;
+  /** 文件保存路径 */
+  path: string;
+  /** 上传时间 */
+  createdAt: string;
+}
+
+/**
+ * 获取文件扩展名（小写，包含点号）
+ * @param {string} fileName 文件名
+ * @returns {string} 扩展名，没有扩展名时返回空字符串
+ */
+export const getExtension = (fileName: string): string => {
+  const index = fileName.lastIndexOf(".");
+  return index === -1 ? "" : fileName.slice(index).toLowerCase();
+};
+
+/**
+ * 获取上传文件大小限制
+ * @returns {number} 大小限制 单位字节
+ */
+export const getUploadMaxSize = (): number => {
+  return env.UPLOAD_MAX_SIZE * 1024 * 1024;
+};
+
+/**
+ * 获取上传文件信息的保存路径
+ * 使用 .info.json 后缀，避免与上传的 JSON 文件重名
+ * @param {string} id 上传ID
+ * @returns {string} 文件信息路径
+ */
+const getInfoPath = (id: string): string => `${env.UPLOAD_DIR}/${id}.info.json`;
+
+/**
+ * 校验上传文件的类型和大小
+ * @param {File} file 表单中的文件
+ * @throws {Error} 当文件类型或大小不符合要求时抛出错误
+ */
+export const checkUploadFile = (file: File): void => {
+  const ext = getExtension(file.name);
+  if (!UPLOAD_EXTENSIONS.includes(ext)) {
+    throw new Error(`不支持的文件类型，仅支持: ${UPLOAD_EXTENSIONS.join(", ")}`);
+  }
+  if (file.size === 0) {
+    throw new Error("上传文件不能为空");
+  }
+  if (file.size > getUploadMaxSize()) {
+    throw new Error(`上传文件不能超过 ${env.UPLOAD_MAX_SIZE}MB`);
+  }
+};
+
+/**
+ * 保存上传文件
+ * @param {File} file 表单中的文件
+ * @returns {Promise<UploadInfo>} 上传文件信息
+ * @throws {Error} 当文件类型或大小不符合要求时抛出错误
+ */
+export const saveUploadFile = async (file: File): Promise<UploadInfo> => {
+  checkUploadFile(file);
+  const ext = getExtension(file.name);
+
+  await Deno.mkdir(env.UPLOAD_DIR, { recursive: true });
+
+  const id = crypto.randomUUID();
+  const info: UploadInfo = {
+    id,
+    fileName: file.name,
+    ext,
+    size: file.size,
+    path: `${env.UPLOAD_DIR}/${id}${ext}`,
+    createdAt: new Date().toISOString(),
+  };
+
+  // 文件内容和文件信息分开保存，文件信息用于后续根据ID查找
+  await Deno.writeFile(info.path, file.stream());
+  await Deno.writeTextFile(getInfoPath(id), JSON.stringify(info));
+
+  logger.info(`上传文件保存成功: ${file.name}`, { id, size: file.size });
+  return info;
+};
+
+/**
+ * 根据上传ID获取上传文件信息
+ * @param {string} id 上传ID
+ * @returns {Promise<UploadInfo | null>} 上传文件信息，未找到时返回 null
+ */
+export const getUploadFile = async (id: string): Promise<UploadInfo | null> => {
+  // 校验ID格式，防止通过ID访问上传目录之外的文件
+  if (!UPLOAD_ID_REG.test(id)) {
+    return null;
+  }
+  try {
+    const info = JSON.parse(await Deno.readTextFile(getInfoPath(id))) as UploadInfo;
+    return info.id === id ? info : null;
+  } catch (_error) {
+    // 文件信息不存在
+    return null;
+  }
+};
@@ -0,0 +1,290 @@
+/**
+ * 请求参数校验工具
+ * 根据路由上声明的参数规则校验并转换查询参数、路径参数和 JSON 请求体
+ *
+ * @example
+ * ```ts
+ * const listQuery = {
+ *   page: { type: "integer", min: 1, default: 1 },
+ *   status: { type: "string", enum: ["done", "failed"] },
+ * } as const satisfies ParamSchema;
+ *
+ * const list = (ctx: RouterContext<string>, input: RequestInput<{ query: typeof listQuery }>) => {
+ *   input.query.page;   // number
+ *   input.query.status; // "done" | "failed" | undefined
+ * };
+ * ```
+ */
+import { RouterContext } from "https://deno.land/x/oak@v17.1.4/router.ts";
+
+/** 参数类型 */
+export type FieldType = "string" | "integer" | "number" | "boolean" | "array" | "object";
+
+/** 参数位置 */
+export type FieldLocation = "query" | "params" | "body";
+
+/**
+ * 参数规则接口
+ */
+export interface FieldSchema {
+  /** 参数类型，查询参数和路径参数中的字符串会转换为对应类型 */
+  type: FieldType;
+  /** 是否必填 */
+  required?: boolean;
+  /** 默认值，参数不存在或为空字符串时使用 */
+  default?: unknown;
+  /** 查询参数存在但值为空字符串时使用的值，如 ?preview 表示使用默认预览行数 */
+  empty?: unknown;
+  /** 枚举值，type 为 string 时使用 */
+  enum?: readonly string[];
+  /** 最小值：数字为数值，字符串为长度，数组为元素个数 */
+  min?: number;
+  /** 最大值：数字为数值，字符串为长度，数组为元素个数 */
+  max?: number;
+  /** 正则表达式，type 为 string 时使用 */
+  pattern?: string;
+  /** 数组元素规则，type 为 array 时使用 */
+  items?: FieldSchema;
+  /** 对象属性规则，type 为 object 时使用 */
+  properties?: ParamSchema;
+  /** 参数说明 */
+  description?: string;
+}
+
+/** 参数规则集合，键为参数名 */
+export type ParamSchema = Record<string, FieldSchema>;
+
+/**
+ * 路由参数规则接口
+ */
+export interface RouteSchema {
+  /** 查询参数规则 */
+  query?: ParamSchema;
+  /** 路径参数规则 */
+  params?: ParamSchema;
+  /** JSON 请求体规则 */
+  body?: ParamSchema;
+}
+
+/**
+ * 参数错误接口
+ */
+export interface FieldError {
+  /** 参数位置 */
+  location: FieldLocation;
+  /** 参数名 */
+  field: string;
+  /** 错误信息 */
+  message: string;
+}
+
+/** 单个参数规则对应的值类型 */
+type FieldValue<F extends FieldSchema> = F["type"] extends "integer" | "number" ? number
+  : F["type"] extends "boolean" ? boolean
+  : F["type"] extends "string" ? (F extends { enum: readonly (infer E)[] } ? E : string)
+  : F["type"] extends "array" ? (F extends { items: infer I extends FieldSchema } ? FieldValue<I>[] : unknown[])
+  : F extends { properties: infer P extends ParamSchema } ? InferParams<P>
+  : Record<string, unknown>;
+
+/** 参数是否一定有值：必填或有默认值 */
+type HasValue<F> = F extends { required: true } ? true : F extends { default: unknown } ? true : false;
+
+/** 参数规则集合对应的值类型 */
+export type InferParams<S extends ParamSchema> =
+  & { [K in keyof S as HasValue<S[K]> extends true ? K : never]: FieldValue<S[K]> }
+  & { [K in keyof S as HasValue<S[K]> extends true ? never : K]?: FieldValue<S[K]> };
+
+/**
+ * 校验后的请求参数接口
+ * @template S 路由参数规则
+ */
+export interface RequestInput<S extends RouteSchema = RouteSchema> {
+  /** 查询参数 */
+  query: S["query"] extends ParamSchema ? InferParams<S["query"]> : Record<string, unknown>;
+  /** 路径参数 */
+  params: S["params"] extends ParamSchema ? InferParams<S["params"]> : Record<string, unknown>;
+  /** JSON 请求体 */
+  body: S["body"] extends ParamSchema ? InferParams<S["body"]> : Record<string, unknown>;
+}
+
+const INTEGER_REG = /^[-+]?\d+$/;
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, "1": true, "0": false };
+
+/**
+ * 校验数值范围
+ * @param {number} size 数值、字符串长度或数组长度
+ * @param {FieldSchema} field 参数规则
+ * @param {string} unit 错误信息前缀，如 长度
+ * @returns {string | null} 错误信息，校验通过时返回 null
+ */
+const checkRange = (size: number, field: FieldSchema, unit = ""): string | null => {
+  if (field.min !== undefined && size < field.min) {
+    return `${unit}不能小于 ${field.min}`;
+  }
+  if (field.max !== undefined && size > field.max) {
+    return `${unit}不能大于 ${field.max}`;
+  }
+  return null;
+};
+
+/**
+ * 校验并转换单个值
+ * @param {unknown} value 原始值，查询参数和路径参数为字符串
+ * @param {FieldSchema} field 参数规则
+ * @returns {{ value?: unknown; error?: string }} 转换后的值或错误信息
+ */
+const coerceValue = (value: unknown, field: FieldSchema): { value?: unknown; error?: string } => {
+  switch (field.type) {
+    case "integer":
+    case "number": {
+      const isText = typeof value === "string";
+      if (typeof value !== "number" && !isText) {
+        return { error: field.type === "integer" ? "必须为整数" : "必须为数字" };
+      }
+      const number = isText ? Number(value.trim()) : value;
+      const isValid = field.type === "integer"
+        ? (isText ? INTEGER_REG.test(value.trim()) : Number.isInteger(number))
+        : value !== "" && Number.isFinite(number);
+      if (!isValid || !Number.isFinite(number)) {
+        return { error: field.type === "integer" ? "必须为整数" : "必须为数字" };
+      }
+      const error = checkRange(number, field);
+      return error ? { error } : { value: number };
+    }
+    case "boolean": {
+      if (typeof value === "boolean") {
+        return { value };
+      }
+      if (typeof value === "string" && value in BOOLEAN_VALUES) {
+        return { value: BOOLEAN_VALUES[value] };
+      }
+      return { error: "必须为 true 或 false" };
+    }
+    case "string": {
+      if (typeof value !== "string") {
+        return { error: "必须为字符串" };
+      }
+      if (field.enum && !field.enum.includes(value)) {
+        return { error: `只支持 ${field.enum.join("、")}` };
+      }
+      if (field.pattern !== undefined && !new RegExp(field.pattern).test(value)) {
+        return { error: "格式不正确" };
+      }
+      const error = checkRange(value.length, field, "长度");
+      return error ? { error } : { value };
+    }
+    case "array": {
+      if (!Array.isArray(value)) {
+        return { error: "必须为数组" };
+      }
+      const rangeError = checkRange(value.length, field, "元素个数");
+      if (rangeError) {
+        return { error: rangeError };
+      }
+      if (!field.items) {
+        return { value };
+      }
+      const list: unknown[] = [];
+      for (let i = 0; i < value.length; i++) {
+        const item = coerceValue(value[i], field.items);
+        if (item.error) {
+          return { error: `第${i + 1}个元素${item.error}` };
+        }
+        list.push(item.value);
+      }
+      return { value: list };
+    }
+    default: {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return { error: "必须为对象" };
+      }
+      if (!field.properties) {
+        return { value };
+      }
+      const result = validateFields(value as Record<string, unknown>, field.properties, "body");
+      if (result.errors.length > 0) {
+        return { error: `属性${result.errors[0].field}${result.errors[0].message}` };
+      }
+      return { value: result.value };
+    }
+  }
+};
+
+/**
+ * 按参数规则校验参数
+ * 参数不存在、为 null 或为空字符串时视为未传，使用默认值；未在规则中声明的参数原样保留
+ * @param {Record<string, unknown>} input 原始参数
+ * @param {ParamSchema} schema 参数规则
+ * @param {FieldLocation} location 参数位置
+ * @returns {{ value: Record<string, unknown>; errors: FieldError[] }} 转换后的参数和错误列表
+ */
+export const validateFields = (
+  input: Record<string, unknown>,
+  schema: ParamSchema,
+  location: FieldLocation,
+): { value: Record<string, unknown>; errors: FieldError[] } => {
+  const value: Record<string, unknown> = { ...input };
+  const errors: FieldError[] = [];
+
+  for (const [name, field] of Object.entries(schema)) {
+    let raw = input[name];
+    if (raw === "" && field.empty !== undefined) {
+      raw = field.empty;
+    }
+    if (raw === undefined || raw === null || raw === "") {
+      if (field.default !== undefined) {
+        value[name] = field.default;
+      } else if (field.required) {
+        errors.push({ location, field: name, message: "不能为空" });
+      } else {
+        delete value[name];
+      }
+      continue;
+    }
+    const result = coerceValue(raw, field);
+    if (result.error) {
+      errors.push({ location, field: name, message: result.error });
+    } else {
+      value[name] = result.value;
+    }
+  }
+
+  return { value, errors };
+};
+
+/**
+ * 校验请求参数
+ * 声明了请求体规则时要求请求体为 JSON 对象，未声明时不读取请求体，由处理函数自行读取
+ * @param {RouterContext<string>} ctx 路由上下文
+ * @param {RouteSchema} schema 路由参数规则
+ * @returns {Promise<{ input: RequestInput; errors: FieldError[] }>} 校验后的参数和错误列表
+ */
+export const validateRequest = async (
+  ctx: RouterContext<string>,
+  schema: RouteSchema,
+): Promise<{ input: RequestInput; errors: FieldError[] }> => {
+  const errors: FieldError[] = [];
+
+  const query = validateFields(Object.fromEntries(ctx.request.url.searchParams), schema.query ?? {}, "query");
+  const params = validateFields({ ...ctx.params }, schema.params ?? {}, "params");
+  errors.push(...query.errors, ...params.errors);
+
+  let body: Record<string, unknown> = {};
+  if (schema.body) {
+    let raw: unknown;
+    try {
+      raw = ctx.request.body.type() === "json" ? await ctx.request.body.json() : undefined;
+    } catch (_error) {
+      raw = undefined;
+    }
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      errors.push({ location: "body", field: "", message: "请求体必须为JSON对象" });
+    } else {
+      const result = validateFields(raw as Record<string, unknown>, schema.body, "body");
+      body = result.value;
+      errors.push(...result.errors);
+    }
+  }
+
+  return { input: { query: query.value, params: params.value, body }, errors };
+};
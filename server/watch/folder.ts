@@ -0,0 +1,439 @@
+/**
+ * 监听目录定时导入
+ * 按配置定时扫描目录，导入匹配的新文件，成功的文件移动到 processed/ 子目录，失败的文件移动到 failed/ 子目录
+ * 每个文件的 SHA-256 校验值记录在 set_watch_file 表中，同一监听目录下内容相同的文件只导入一次
+ *
+ * 配置文件为 JSON 数组，路径由 env.WATCH_CONFIG 指定：
+ * ```json
+ * [
+ *   {
+ *     "name": "nightly_sales",
+ *     "dir": "/data/drop/sales",
+ *     "pattern": "sales_*.csv",
+ *     "schedule": "0 2 * * *",
+ *     "datasetId": 3,
+ *     "keys": ["订单号"],
+ *     "mappingPreset": "销售日报"
+ *   }
+ * ]
+ * ```
+ */
+import moment from "moment";
+import { mysql } from "../utils/mysql.ts";
+import { logger } from "../utils/logger.ts";
+import { type FileReadOptions, readFileRows } from "../read/parser.ts";
+import { importDataset } from "../dataset/importer.ts";
+import { reimportDataset } from "../dataset/upsert.ts";
+import { prepareRows } from "../dataset/prepare.ts";
+import { type MappingSpec, parseMapping } from "../dataset/mapping.ts";
+import { type ColumnRule, parseSchema } from "../dataset/validator.ts";
+import { getMappingPreset } from "../mapping/preset.ts";
+
+/** 监听文件记录表 */
+export const WATCH_FILE_TABLE = "set_watch_file";
+
+/** 成功文件子目录 */
+const PROCESSED_DIR = "processed";
+/** 失败文件子目录 */
+const FAILED_DIR = "failed";
+/** 默认扫描周期：每10分钟 */
+const DEFAULT_SCHEDULE = "*/10 * * * *";
+/** 默认文件稳定时间 单位秒，最近修改过的文件可能仍在写入，暂不处理 */
+const DEFAULT_SETTLE_SECONDS = 30;
+
+/** 文件处理状态 */
+export type WatchFileStatus = "done" | "failed";
+
+/**
+ * 监听目录配置接口
+ */
+export interface WatchFolder {
+  /** 名称，同时作为定时任务名称 */
+  name: string;
+  /** 监听目录 */
+  dir: string;
+  /** 文件名匹配规则，支持 * 和 ?，默认 *.csv */
+  pattern: string;
+  /** cron 表达式，默认每10分钟 */
+  schedule: string;
+  /** 目标数据集ID，不传时每个文件新建一个数据集 */
+  datasetId?: number;
+  /** 键列，指定 datasetId 时必填，按键列增量导入 */
+  keys?: string[];
+  /** 是否删除文件中不存在的行 */
+  deleteMissing?: boolean;
+  /** 列映射规则 */
+  mapping?: MappingSpec;
+  /** 映射预设名称，每次扫描时读取最新的预设 */
+  mappingPreset?: string;
+  /** 列校验规则 */
+  schema?: ColumnRule[];
+  /** 是否跳过无效行 */
+  skipInvalid?: boolean;
+  /** 文件读取配置 */
+  read?: FileReadOptions;
+  /** 文件稳定时间 单位秒 */
+  settleSeconds: number;
+}
+
+/**
+ * 监听文件记录接口，对应 set_watch_file 表
+ */
+export interface WatchFile {
+  /** 记录ID */
+  id: number;
+  /** 监听目录名称 */
+  watch_name: string;
+  /** 文件名称 */
+  file_name: string;
+  /** 文件 SHA-256 校验值 */
+  checksum: string;
+  /** 处理状态 */
+  status: WatchFileStatus;
+  /** 导入的数据集ID */
+  dataset_id: number | null;
+  /** 导入行数 */
+  row_count: number;
+  /** 错误信息 */
+  error: string | null;
+  /** 处理时间 */
+  created_at: string;
+}
+
+/**
+ * 单次扫描结果接口
+ */
+export interface ScanResult {
+  /** 导入成功的文件数 */
+  imported: number;
+  /** 导入失败的文件数 */
+  failed: number;
+  /** 已导入过而跳过的文件数 */
+  skipped: number;
+}
+
+let tableReady = false;
+/** 正在扫描的监听目录，上一次扫描未结束时跳过本次扫描 */
+const scanning = new Set<string>();
+
+/**
+ * 确保 set_watch_file 表存在
+ */
+const ensureWatchFileTable = async (): Promise<void> => {
+  if (tableReady) {
+    return;
+  }
+  await mysql.query(`
+    CREATE TABLE IF NOT EXISTS ${WATCH_FILE_TABLE} (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      watch_name VARCHAR(100) NOT NULL,
+      file_name VARCHAR(255) NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      status VARCHAR(16) NOT NULL,
+      dataset_id INT NULL,
+      row_count INT NOT NULL DEFAULT 0,
+      error TEXT NULL,
+      created_at DATETIME NOT NULL,
+      INDEX idx_watch_checksum (watch_name, checksum)
+    )
+  `);
+  tableReady = true;
+};
+
+/**
+ * 将文件名匹配规则转换为正则表达式
+ * @param {string} pattern 匹配规则，* 匹配任意字符，? 匹配单个字符
+ * @returns {RegExp} 正则表达式，不区分大小写
+ */
+export const patternToRegExp = (pattern: string): RegExp => {
+  const source = pattern
+    .split("")
+    .map((char) => char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&"))
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+};
+
+/**
+ * 解析并校验监听目录配置
+ * @param {unknown} input 配置内容
+ * @returns {WatchFolder[]} 监听目录配置
+ * @throws {Error} 当配置格式错误时抛出错误
+ */
+export const parseWatchFolders = (input: unknown): WatchFolder[] => {
+  if (!Array.isArray(input)) {
+    throw new Error("监听目录配置必须为JSON数组");
+  }
+  const names = new Set<string>();
+  return input.map((item, index) => {
+    if (!item || typeof item !== "object" || typeof item.name !== "string" || !item.name) {
+      throw new Error(`第${index + 1}个监听目录缺少name`);
+    }
+    if (names.has(item.name)) {
+      throw new Error(`监听目录名称重复: ${item.name}`);
+    }
+    names.add(item.name);
+    if (typeof item.dir !== "string" || !item.dir) {
+      throw new Error(`监听目录 ${item.name} 缺少dir`);
+    }
+    if (item.datasetId !== undefined && (!Array.isArray(item.keys) || item.keys.length === 0)) {
+      throw new Error(`监听目录 ${item.name} 指定datasetId时必须指定keys`);
+    }
+    if (item.mapping && item.mappingPreset) {
+      throw new Error(`监听目录 ${item.name} 不能同时指定mapping和mappingPreset`);
+    }
+    return {
+      ...item,
+      dir: item.dir.replace(/\/+$/, ""),
+      pattern: item.pattern || "*.csv",
+      schedule: item.schedule || DEFAULT_SCHEDULE,
+      mapping: item.mapping ? parseMapping(item.mapping) : undefined,
+      schema: item.schema ? parseSchema(item.schema) : undefined,
+      settleSeconds: item.settleSeconds ?? DEFAULT_SETTLE_SECONDS,
+    } as WatchFolder;
+  });
+};
+
+/**
+ * 读取监听目录配置文件
+ * @param {string} path 配置文件路径，为空时返回空数组
+ * @returns {Promise<WatchFolder[]>} 监听目录配置
+ * @throws {Error} 当配置文件不存在或格式错误时抛出错误
+ */
+export const loadWatchFolders = async (path: string): Promise<WatchFolder[]> => {
+  if (!path) {
+    return [];
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new Error(`读取监听目录配置失败: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseWatchFolders(value);
+};
+
+/**
+ * 计算文件的 SHA-256 校验值
+ * @param {string} path 文件路径
+ * @returns {Promise<string>} 十六进制校验值
+ */
+const getChecksum = async (path: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", await Deno.readFile(path));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * 将文件移动到子目录，目标文件已存在时在文件名后追加时间
+ * @param {string} dir 监听目录
+ * @param {string} fileName 文件名
+ * @param {string} subDir 子目录
+ */
+const moveFile = async (dir: string, fileName: string, subDir: string): Promise<void> => {
+  const targetDir = `${dir}/${subDir}`;
+  await Deno.mkdir(targetDir, { recursive: true });
+  let target = `${targetDir}/${fileName}`;
+  try {
+    await Deno.stat(target);
+    const index = fileName.lastIndexOf(".");
+    const suffix = `_${moment().format("YYYYMMDDHHmmss")}`;
+    target = index > 0
+      ? `${targetDir}/${fileName.slice(0, index)}${suffix}${fileName.slice(index)}`
+      : `${targetDir}/${fileName}${suffix}`;
+  } catch (_error) {
+    // 目标文件不存在，直接使用原文件名
+  }
+  await Deno.rename(`${dir}/${fileName}`, target);
+};
+
+/**
+ * 执行文件处理后的记录和移动操作，失败时只记录日志，不影响扫描其他文件
+ * @param {() => Promise<unknown>} action 操作
+ * @param {string} message 失败时的日志信息
+ * @param {Record<string, unknown>} meta 日志附加信息
+ */
+const runSafely = async (
+  action: () => Promise<unknown>,
+  message: string,
+  meta: Record<string, unknown>,
+): Promise<void> => {
+  try {
+    await action();
+  } catch (error) {
+    logger.error(message, { ...meta, error: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+/**
+ * 导入单个文件
+ * @param {WatchFolder} folder 监听目录配置
+ * @param {string} path 文件路径
+ * @param {string} fileName 文件名
+ * @returns {Promise<{ datasetId: number; rowCount: number }>} 导入的数据集ID和文件中导入的行数
+ * @throws {Error} 当读取、校验或导入失败时抛出错误
+ */
+const importFile = async (
+  folder: WatchFolder,
+  path: string,
+  fileName: string,
+): Promise<{ datasetId: number; rowCount: number }> => {
+  let rows = await readFileRows(path, folder.read);
+
+  let mapping = folder.mapping;
+  if (folder.mappingPreset) {
+    const preset = await getMappingPreset(folder.mappingPreset);
+    if (!preset) {
+      throw new Error(`映射预设不存在: ${folder.mappingPreset}`);
+    }
+    mapping = preset.spec;
+  }
+  if (mapping || folder.schema) {
+    const { valid, invalid } = prepareRows(rows, { mapping, schema: folder.schema });
+    if (invalid.length > 0 && !folder.skipInvalid) {
+      throw new Error(`数据校验失败，共 ${invalid.length} 行无效，第一个无效行为第 ${invalid[0].row} 行`);
+    }
+    rows = valid;
+  }
+
+  if (folder.datasetId) {
+    const result = await reimportDataset(folder.datasetId, fileName, rows, {
+      keys: folder.keys!,
+      deleteMissing: folder.deleteMissing,
+    });
+    return { datasetId: result.id, rowCount: rows.length };
+  }
+  const result = await importDataset(fileName, rows);
+  return { datasetId: result.id, rowCount: rows.length };
+};
+
+/**
+ * 扫描监听目录并导入新文件
+ * 单个文件检查或导入失败不影响其他文件，导入失败原因记录在 set_watch_file 表和日志中
+ * 导入成功后的记录和移动失败时不会将文件视为导入失败，避免文件移动到 failed/ 后被再次导入
+ * @param {WatchFolder} folder 监听目录配置
+ * @returns {Promise<ScanResult>} 扫描结果
+ * @throws {Error} 当目录无法读取时抛出错误
+ */
+export const scanWatchFolder = async (folder: WatchFolder): Promise<ScanResult> => {
+  const result: ScanResult = { imported: 0, failed: 0, skipped: 0 };
+  if (scanning.has(folder.name)) {
+    logger.warn(`监听目录上一次扫描未结束，跳过本次扫描: ${folder.name}`);
+    return result;
+  }
+  scanning.add(folder.name);
+
+  try {
+    await ensureWatchFileTable();
+    const regExp = patternToRegExp(folder.pattern);
+    const settledBefore = Date.now() - folder.settleSeconds * 1000;
+
+    const fileNames: string[] = [];
+    for await (const entry of Deno.readDir(folder.dir)) {
+      if (entry.isFile && regExp.test(entry.name)) {
+        fileNames.push(entry.name);
+      }
+    }
+    fileNames.sort();
+
+    for (const fileName of fileNames) {
+      const path = `${folder.dir}/${fileName}`;
+      let checksum: string;
+      let imported: WatchFile | null;
+      try {
+        const stat = await Deno.stat(path);
+        if ((stat.mtime?.getTime() ?? 0) > settledBefore) {
+          continue;
+        }
+        checksum = await getChecksum(path);
+        imported = await mysql.findOne<WatchFile>(WATCH_FILE_TABLE, {
+          watch_name: folder.name,
+          checksum,
+          status: "done",
+        });
+      } catch (error) {
+        // 文件在扫描过程中被删除或数据库暂时不可用时保留文件，下次扫描时重试
+        logger.error(`监听目录文件检查失败: ${fileName}`, {
+          watch: folder.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        result.failed++;
+        continue;
+      }
+      if (imported) {
+        logger.info(`监听目录文件已导入过，跳过: ${fileName}`, { watch: folder.name, checksum, datasetId: imported.dataset_id });
+        await runSafely(() => moveFile(folder.dir, fileName, PROCESSED_DIR), `监听目录文件移动失败: ${fileName}`, {
+          watch: folder.name,
+        });
+        result.skipped++;
+        continue;
+      }
+
+      const record = {
+        watch_name: folder.name,
+        file_name: fileName,
+        checksum,
+        created_at: moment().format("YYYY-MM-DD HH:mm:ss"),
+      };
+      let datasetId: number;
+      let rowCount: number;
+      try {
+        ({ datasetId, rowCount } = await importFile(folder, path, fileName));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`监听目录文件导入失败: ${fileName}`, { watch: folder.name, error: message });
+        await runSafely(
+          () => mysql.insert(WATCH_FILE_TABLE, { ...record, status: "failed", error: message }),
+          `监听目录文件记录失败: ${fileName}`,
+          { watch: folder.name },
+        );
+        await runSafely(() => moveFile(folder.dir, fileName, FAILED_DIR), `监听目录文件移动失败: ${fileName}`, {
+          watch: folder.name,
+        });
+        result.failed++;
+        continue;
+      }
+
+      // 数据已导入，记录或移动失败时文件仍视为导入成功；两者都失败时下次扫描会再次导入该文件
+      logger.info(`监听目录文件导入成功: ${fileName}`, { watch: folder.name, datasetId, rowCount });
+      await runSafely(
+        () => mysql.insert(WATCH_FILE_TABLE, { ...record, status: "done", dataset_id: datasetId, row_count: rowCount }),
+        `监听目录文件记录失败: ${fileName}`,
+        { watch: folder.name, datasetId },
+      );
+      await runSafely(() => moveFile(folder.dir, fileName, PROCESSED_DIR), `监听目录文件移动失败: ${fileName}`, {
+        watch: folder.name,
+        datasetId,
+      });
+      result.imported++;
+    }
+
+    if (result.imported + result.failed + result.skipped > 0) {
+      logger.info(`监听目录扫描完成: ${folder.name}`, { ...result });
+    }
+    return result;
+  } finally {
+    scanning.delete(folder.name);
+  }
+};
+
+/**
+ * 获取监听文件记录
+ * @param {{ watchName?: string; status?: WatchFileStatus }} conditions 筛选条件
+ * @param {number} [limit=50] 返回数量
+ * @returns {Promise<WatchFile[]>} 监听文件记录，按处理时间倒序
+ */
+export const listWatchFiles = async (
+  conditions: { watchName?: string; status?: WatchFileStatus },
+  limit = 50,
+): Promise<WatchFile[]> => {
+  await ensureWatchFileTable();
+  return await mysql.findAll<WatchFile>(
+    WATCH_FILE_TABLE,
+    {
+      ...(conditions.watchName && { watch_name: conditions.watchName }),
+      ...(conditions.status && { status: conditions.status }),
+    },
+    undefined,
+    "id DESC",
+    limit,
+  );
+};
@@ -0,0 +1,35 @@
+import { RouterContext } from "https://deno.land/x/oak@v17.1.4/router.ts";
+import { errorBody, successBody } from "../utils/bodyFormat.ts";
+import type { ParamSchema, RequestInput } from "../utils/validation.ts";
+import { listWatchFiles, type WatchFileStatus } from "./folder.ts";
+
+/** 文件处理状态列表 */
+const WATCH_FILE_STATUS: WatchFileStatus[] = ["done", "failed"];
+
+/** getWatchFileList 参数规则 */
+export const getWatchFileListQuery = {
+  name: { type: "string", description: "监听目录名称" },
+  status: { type: "string", enum: WATCH_FILE_STATUS, description: "处理状态" },
+  limit: { type: "integer", min: 1, max: 500, default: 50, description: "返回数量" },
+} as const satisfies ParamSchema;
+
+/**
+ * 查询监听目录的文件处理记录
+ * @param name 监听目录名称
+ * @param status 处理状态 done/failed
+ * @param limit 返回数量，默认 50
+ */
+export const getWatchFileList = async (
+  ctx: RouterContext<string>,
+  { query }: RequestInput<{ query: typeof getWatchFileListQuery }>,
+) => {
+  try {
+    const list = await listWatchFiles({
+      watchName: query.name,
+      status: query.status as WatchFileStatus | undefined,
+    }, query.limit);
+    ctx.response.body = successBody(list);
+  } catch (_error) {
+    ctx.response.body = errorBody("查询文件处理记录失败");
+  }
+};
@@ -0,0 +1,38 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { env } from "./server/config/env.ts";
+import { getExtension, getUploadFile, saveUploadFile } from "./server/utils/upload.ts";
+
+Deno.test("getExtension 返回小写扩展名", () => {
+  assertEquals(getExtension("销售数据.2024.XLSX"), ".xlsx");
+  assertEquals(getExtension("data.csv"), ".csv");
+  assertEquals(getExtension("README"), "");
+});
+
+Deno.test("saveUploadFile 保存文件并可以按上传ID读取", async () => {
+  const dir = await Deno.makeTempDir();
+  const uploadDir = env.UPLOAD_DIR;
+  try {
+    env.UPLOAD_DIR = dir;
+    const info = await saveUploadFile(new File(["id,name\n1,张三\n"], "users.CSV"));
+    assertEquals(info.ext, ".csv");
+    assertEquals(info.path, `${dir}/${info.id}.csv`);
+    assertEquals(await Deno.readTextFile(info.path), "id,name\n1,张三\n");
+    assertEquals(await getUploadFile(info.id), info);
+
+    // 上传的 JSON 文件与文件信息不会重名
+    const json = await saveUploadFile(new File(['[{"id":1}]'], "rows.json"));
+    assertEquals(await Deno.readTextFile(json.path), '[{"id":1}]');
+    assertEquals(await getUploadFile(json.id), json);
+
+    assertEquals(await getUploadFile(crypto.randomUUID()), null);
+    assertEquals(await getUploadFile("../users"), null);
+  } finally {
+    env.UPLOAD_DIR = uploadDir;
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("saveUploadFile 拒绝不支持的类型和空文件", async () => {
+  await assertRejects(() => saveUploadFile(new File(["x"], "run.sh")), Error, "不支持的文件类型");
+  await assertRejects(() => saveUploadFile(new File([], "empty.csv")), Error, "上传文件不能为空");
+});
@@ -0,0 +1,61 @@
+import { assertEquals } from "@std/assert";
+import { type ParamSchema, validateFields } from "./server/utils/validation.ts";
+
+const listQuery = {
+  page: { type: "integer", min: 1, default: 1 },
+  preview: { type: "integer", empty: 20, max: 100 },
+  status: { type: "string", enum: ["done", "failed"] },
+  name: { type: "string", pattern: "^[a-z]+$", max: 5 },
+  desc: { type: "boolean" },
+  ratio: { type: "number" },
+} satisfies ParamSchema;
+
+Deno.test("validateFields 转换查询参数并使用默认值", () => {
+  assertEquals(validateFields({ preview: "", desc: "1", ratio: "0.5", other: "x" }, listQuery, "query"), {
+    value: { page: 1, preview: 20, desc: true, ratio: 0.5, other: "x" },
+    errors: [],
+  });
+  assertEquals(validateFields({ page: " 3 ", status: "done", name: "abc", desc: "false" }, listQuery, "query"), {
+    value: { page: 3, status: "done", name: "abc", desc: false },
+    errors: [],
+  });
+});
+
+Deno.test("validateFields 返回所有参数错误", () => {
+  const { errors } = validateFields(
+    { page: "0", preview: "1.5", status: "running", name: "abcdef", desc: "yes", ratio: "abc" },
+    listQuery,
+    "query",
+  );
+  assertEquals(errors, [
+    { location: "query", field: "page", message: "不能小于 1" },
+    { location: "query", field: "preview", message: "必须为整数" },
+    { location: "query", field: "status", message: "只支持 done、failed" },
+    { location: "query", field: "name", message: "长度不能大于 5" },
+    { location: "query", field: "desc", message: "必须为 true 或 false" },
+    { location: "query", field: "ratio", message: "必须为数字" },
+  ]);
+});
+
+Deno.test("validateFields 校验请求体的必填项、数组和对象", () => {
+  const body = {
+    ids: { type: "array", required: true, min: 1, items: { type: "integer" } },
+    options: {
+      type: "object",
+      properties: { sheet: { type: "string", required: true }, headerRow: { type: "integer", min: 1 } },
+    },
+  } satisfies ParamSchema;
+  assertEquals(validateFields({ ids: [1, 2], options: { sheet: "Sheet1" } }, body, "body"), {
+    value: { ids: [1, 2], options: { sheet: "Sheet1" } },
+    errors: [],
+  });
+  assertEquals(validateFields({}, body, "body").errors, [{ location: "body", field: "ids", message: "不能为空" }]);
+  assertEquals(validateFields({ ids: [], options: [] }, body, "body").errors, [
+    { location: "body", field: "ids", message: "元素个数不能小于 1" },
+    { location: "body", field: "options", message: "必须为对象" },
+  ]);
+  assertEquals(validateFields({ ids: [1, 1.5], options: { headerRow: 0 } }, body, "body").errors, [
+    { location: "body", field: "ids", message: "第2个元素必须为整数" },
+    { location: "body", field: "options", message: "属性sheet不能为空" },
+  ]);
+});
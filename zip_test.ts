@@ -0,0 +1,59 @@
+import { assertEquals } from "@std/assert";
+import { createZipStream } from "./server/export/zip.ts";
+
+/**
+ * 解析 ZIP 中央目录并解压所有条目
+ * @param {Uint8Array} zip ZIP 数据
+ * @returns {Promise<Record<string, string>>} 条目路径到内容的映射
+ */
+const unzip = async (zip: Uint8Array): Promise<Record<string, string>> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  assertEquals(view.getUint32(end, true), 0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  const files: Record<string, string> = {};
+  for (let i = 0; i < count; i++) {
+    assertEquals(view.getUint32(offset, true), 0x02014b50);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+
+    assertEquals(view.getUint32(localOffset, true), 0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const compressed = zip.slice(dataStart, dataStart + compressedSize);
+    const stream = ReadableStream.from([compressed]).pipeThrough(new DecompressionStream("deflate-raw"));
+    files[name] = await new Response(stream).text();
+
+    offset += 46 + nameLength + extraLength;
+  }
+  return files;
+};
+
+Deno.test("createZipStream 输出可解压的 ZIP", async () => {
+  const zip = new Uint8Array(await new Response(createZipStream([
+    { name: "a.csv", data: ["id,name\n", "1,张三\n"] },
+    { name: "目录/b.txt", data: [new TextEncoder().encode("hello")] },
+    {
+      name: "c.txt",
+      data: (async function* () {
+        yield "x".repeat(10000);
+      })(),
+    },
+  ])).arrayBuffer());
+
+  assertEquals(await unzip(zip), {
+    "a.csv": "id,name\n1,张三\n",
+    "目录/b.txt": "hello",
+    "c.txt": "x".repeat(10000),
+  });
+});
+
+Deno.test("createZipStream 没有条目时输出空 ZIP", async () => {
+  const zip = new Uint8Array(await new Response(createZipStream([])).arrayBuffer());
+  assertEquals(zip.length, 22);
+  assertEquals(await unzip(zip), {});
+});